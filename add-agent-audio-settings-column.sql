@@ -0,0 +1,15 @@
+-- Add audio_settings column to ai_agents table
+-- This script adds per-agent outbound audio processing settings used by the tw2gem server
+
+-- Add audio_settings column to ai_agents table (non-destructive)
+ALTER TABLE ai_agents 
+ADD COLUMN IF NOT EXISTS audio_settings JSONB 
+DEFAULT '{"remove_dc_offset": true, "normalize_volume": true, "comfort_noise": false}'::jsonb;
+
+-- Add a comment to document the column
+COMMENT ON COLUMN ai_agents.audio_settings IS 'Outbound audio processing for the agent voice. Keys: remove_dc_offset, normalize_volume, target_level_dbfs, max_gain_db, comfort_noise, comfort_noise_level_dbfs';
+
+-- Verify the changes (optional - for confirmation)
+-- SELECT column_name, data_type, column_default, is_nullable 
+-- FROM information_schema.columns 
+-- WHERE table_name = 'ai_agents' AND column_name = 'audio_settings';
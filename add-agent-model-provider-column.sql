@@ -0,0 +1,40 @@
+-- Add model_provider column to ai_agents table and OpenAI settings to profiles table
+-- This script lets each agent run on Gemini Live or an OpenAI Realtime compatible model
+
+-- Add model_provider column to ai_agents table (non-destructive)
+ALTER TABLE ai_agents
+ADD COLUMN IF NOT EXISTS model_provider TEXT
+DEFAULT 'gemini';
+
+-- Add a check constraint to ensure only supported providers are allowed
+DO $$
+BEGIN
+    -- Check if constraint already exists
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE constraint_name = 'ai_agents_model_provider_check'
+        AND table_name = 'ai_agents'
+    ) THEN
+        ALTER TABLE ai_agents
+        ADD CONSTRAINT ai_agents_model_provider_check
+        CHECK (model_provider IN ('gemini', 'openai'));
+    END IF;
+END $$;
+
+-- Add OpenAI key and model columns to profiles table (non-destructive)
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS openai_api_key TEXT;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS openai_model TEXT;
+
+-- Add comments to document the columns
+COMMENT ON COLUMN ai_agents.model_provider IS 'Realtime model the agent talks through. Options: gemini, openai. NULL is treated as gemini';
+COMMENT ON COLUMN profiles.openai_api_key IS 'OpenAI key for agents whose model_provider is openai. NULL uses the server key';
+COMMENT ON COLUMN profiles.openai_model IS 'OpenAI Realtime model for agents whose model_provider is openai. NULL uses the server default (gpt-realtime)';
+
+-- Verify the changes (optional - for confirmation)
+-- SELECT table_name, column_name, data_type, column_default, is_nullable
+-- FROM information_schema.columns
+-- WHERE (table_name = 'ai_agents' AND column_name = 'model_provider')
+--    OR (table_name = 'profiles' AND column_name IN ('openai_api_key', 'openai_model'));
@@ -0,0 +1,14 @@
+-- Add vad_settings column to ai_agents table
+-- This script adds per-agent voice activity detection settings passed to Gemini Live at call start
+
+-- Add vad_settings column to ai_agents table (non-destructive)
+ALTER TABLE ai_agents 
+ADD COLUMN IF NOT EXISTS vad_settings JSONB;
+
+-- Add a comment to document the column
+COMMENT ON COLUMN ai_agents.vad_settings IS 'Gemini automatic activity detection for the agent. Keys: disabled, start_sensitivity (low, medium, high), end_sensitivity (low, medium, high), prefix_padding_ms, silence_duration_ms. NULL keeps the server defaults';
+
+-- Verify the changes (optional - for confirmation)
+-- SELECT column_name, data_type, column_default, is_nullable 
+-- FROM information_schema.columns 
+-- WHERE table_name = 'ai_agents' AND column_name = 'vad_settings';
@@ -0,0 +1,22 @@
+-- Add call lease columns to call_logs table for plan limit enforcement
+-- This script lets call servers count each other's live calls and close out the calls of servers that died
+
+-- Add server_id and heartbeat_at columns to call_logs table (non-destructive)
+ALTER TABLE call_logs
+ADD COLUMN IF NOT EXISTS server_id TEXT;
+
+ALTER TABLE call_logs
+ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+
+-- Index live calls for the concurrency checks made on every new call
+CREATE INDEX IF NOT EXISTS idx_call_logs_live_by_profile ON call_logs(profile_id, heartbeat_at) WHERE status = 'in_progress';
+CREATE INDEX IF NOT EXISTS idx_call_logs_live_by_agent ON call_logs(agent_id, heartbeat_at) WHERE status = 'in_progress';
+
+-- Add comments to document the columns
+COMMENT ON COLUMN call_logs.server_id IS 'Call server process handling the call';
+COMMENT ON COLUMN call_logs.heartbeat_at IS 'Last lease renewal by the call server; in-progress calls not renewed for 90 seconds no longer count as live and are marked abandoned by the next server to start, as are ones never renewed that started over 90 seconds ago';
+
+-- Verify the changes (optional - for confirmation)
+-- SELECT table_name, column_name, data_type, column_default, is_nullable
+-- FROM information_schema.columns
+-- WHERE table_name = 'call_logs' AND column_name IN ('server_id', 'heartbeat_at');
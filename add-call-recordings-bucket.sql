@@ -0,0 +1,18 @@
+-- Create the private call-recordings storage bucket
+-- The tw2gem server uploads each call's stereo WAV to <profile id>/<call id>.wav and saves that object path
+-- to call_logs.recording_url; the UI creates a short-lived signed URL for it when a recording is played
+
+-- Create the bucket, or make an existing one private (non-destructive)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('call-recordings', 'call-recordings', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Signed-in users may read, and so sign URLs for, their own profile's recordings only.
+-- The server uploads with the service role key, which bypasses these policies.
+DROP POLICY IF EXISTS "Users can read their own call recordings" ON storage.objects;
+CREATE POLICY "Users can read their own call recordings" ON storage.objects
+FOR SELECT TO authenticated
+USING (bucket_id = 'call-recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Verify the changes (optional - for confirmation)
+-- SELECT id, name, public FROM storage.buckets WHERE id = 'call-recordings';
@@ -0,0 +1,14 @@
+-- Add transcript_segments column to call_logs table
+-- This script stores the speaker-labelled transcript captured by the tw2gem server alongside the plain-text transcript
+
+-- Add transcript_segments column to call_logs table (non-destructive)
+ALTER TABLE call_logs 
+ADD COLUMN IF NOT EXISTS transcript_segments JSONB;
+
+-- Add a comment to document the column
+COMMENT ON COLUMN call_logs.transcript_segments IS 'Ordered transcript segments. Keys: id, speaker (caller, agent, tool), text, startMs and endMs (offsets from call start), final, interrupted, toolCall';
+
+-- Verify the changes (optional - for confirmation)
+-- SELECT column_name, data_type, column_default, is_nullable 
+-- FROM information_schema.columns 
+-- WHERE table_name = 'call_logs' AND column_name = 'transcript_segments';
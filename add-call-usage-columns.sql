@@ -0,0 +1,79 @@
+-- Add usage accounting columns to call_logs and usage_records, and a function to charge call minutes
+-- This script lets the call server record each call's tokens and cost and keep profiles.minutes_used current
+
+-- Add usage columns to call_logs table (non-destructive)
+ALTER TABLE call_logs
+ADD COLUMN IF NOT EXISTS total_tokens INTEGER;
+
+ALTER TABLE call_logs
+ADD COLUMN IF NOT EXISTS billable_minutes INTEGER;
+
+ALTER TABLE call_logs
+ADD COLUMN IF NOT EXISTS estimated_cost NUMERIC(10, 4);
+
+ALTER TABLE call_logs
+ADD COLUMN IF NOT EXISTS usage JSONB;
+
+-- Create the usage ledger if it does not exist yet
+CREATE TABLE IF NOT EXISTS usage_records (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    subscription_id UUID,
+    usage_type TEXT NOT NULL,
+    quantity NUMERIC NOT NULL DEFAULT 0,
+    unit_price NUMERIC(10, 4),
+    total_cost NUMERIC(10, 4),
+    billing_period_start TIMESTAMPTZ NOT NULL,
+    billing_period_end TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add per-call columns to usage_records table (non-destructive)
+ALTER TABLE usage_records
+ADD COLUMN IF NOT EXISTS call_id TEXT;
+
+ALTER TABLE usage_records
+ADD COLUMN IF NOT EXISTS input_tokens INTEGER;
+
+ALTER TABLE usage_records
+ADD COLUMN IF NOT EXISTS output_tokens INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_usage_records_profile_created ON usage_records(profile_id, created_at DESC);
+
+-- Charge call minutes atomically, so concurrent calls of one profile never lose an update
+CREATE OR REPLACE FUNCTION increment_minutes_used(profile_id UUID, minutes INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    new_total INTEGER;
+BEGIN
+    IF minutes IS NULL OR minutes < 0 THEN
+        RAISE EXCEPTION 'minutes must be zero or more, got %', minutes;
+    END IF;
+
+    UPDATE profiles
+    SET minutes_used = COALESCE(minutes_used, 0) + increment_minutes_used.minutes
+    WHERE id = increment_minutes_used.profile_id
+    RETURNING minutes_used INTO new_total;
+    RETURN new_total;
+END;
+$$;
+
+-- Only the call server, which uses the service role, charges minutes; callers through the API must not
+REVOKE EXECUTE ON FUNCTION increment_minutes_used(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION increment_minutes_used(UUID, INTEGER) TO service_role;
+
+-- Add comments to document the columns
+COMMENT ON COLUMN call_logs.total_tokens IS 'Model tokens the call used, input and output, across every session it ran on';
+COMMENT ON COLUMN call_logs.billable_minutes IS 'Started minutes of the call charged to profiles.minutes_used';
+COMMENT ON COLUMN call_logs.estimated_cost IS 'Model cost of the call in USD at list prices; an estimate, not an invoice';
+COMMENT ON COLUMN call_logs.usage IS 'Usage breakdown: tokens by modality and model, caller and agent audio seconds, billable minutes and cost';
+COMMENT ON COLUMN usage_records.call_id IS 'Call the ledger line is for; NULL for lines not tied to a call';
+COMMENT ON FUNCTION increment_minutes_used(UUID, INTEGER) IS 'Adds minutes, zero or more, to a profile''s minutes_used and returns the new total; service role only';
+
+-- Verify the changes (optional - for confirmation)
+-- SELECT table_name, column_name, data_type, column_default, is_nullable
+-- FROM information_schema.columns
+-- WHERE (table_name = 'call_logs' AND column_name IN ('total_tokens', 'billable_minutes', 'estimated_cost', 'usage'))
+--    OR (table_name = 'usage_records' AND column_name IN ('call_id', 'input_tokens', 'output_tokens'));
@@ -0,0 +1,27 @@
+-- Add Gemini failover chain to profiles table and failover tracking to call_logs table
+-- This script lets calls move to a fallback Gemini model when their session is lost mid-call
+
+-- Add gemini_fallback_models column to profiles table (non-destructive)
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS gemini_fallback_models TEXT[];
+
+-- Add failover columns to call_logs table (non-destructive)
+ALTER TABLE call_logs
+ADD COLUMN IF NOT EXISTS failed_over BOOLEAN DEFAULT false;
+
+ALTER TABLE call_logs
+ADD COLUMN IF NOT EXISTS model_failovers JSONB;
+
+-- Index failed-over calls for reporting
+CREATE INDEX IF NOT EXISTS idx_call_logs_failed_over ON call_logs(failed_over) WHERE failed_over;
+
+-- Add comments to document the columns
+COMMENT ON COLUMN profiles.gemini_fallback_models IS 'Gemini models a call fails over to, in order, when its session is lost mid-call. NULL uses the server chain';
+COMMENT ON COLUMN call_logs.failed_over IS 'Whether the call moved to a fallback model after losing its session';
+COMMENT ON COLUMN call_logs.model_failovers IS 'Each failover of the call: at, fromModel, toModel, reason';
+
+-- Verify the changes (optional - for confirmation)
+-- SELECT table_name, column_name, data_type, column_default, is_nullable
+-- FROM information_schema.columns
+-- WHERE (table_name = 'profiles' AND column_name = 'gemini_fallback_models')
+--    OR (table_name = 'call_logs' AND column_name IN ('failed_over', 'model_failovers'));
@@ -0,0 +1,75 @@
+// Measures the per-frame cost of the audio path for a call center running many concurrent
+// streams. Every simulated call converts one 20 ms frame in each direction per tick:
+// 160 bytes of 8 kHz G.711 from Twilio and 480 samples of 24 kHz PCM from Gemini.
+//
+// Usage: npm run benchmark -- [concurrentCalls] [seconds]
+import { performance } from 'node:perf_hooks';
+import { AudioConverter, StreamingAudioConverter } from '../dist/index.js';
+
+const CONCURRENT_CALLS = parseInt(process.argv[2] || '500', 10);
+const SECONDS = parseInt(process.argv[3] || '5', 10);
+const FRAME_MS = 20;
+const TICKS = (SECONDS * 1000) / FRAME_MS;
+
+const makeFrames = () => {
+    const pcm24k = new Int16Array(480);
+    for (let i = 0; i < pcm24k.length; i++) {
+        pcm24k[i] = Math.round(8000 * Math.sin((2 * Math.PI * 440 * i) / 24000));
+    }
+    const g711 = new Uint8Array(160);
+    for (let i = 0; i < g711.length; i++) {
+        g711[i] = AudioConverter.pcmToMuLaw(pcm24k[i * 3]);
+    }
+    return {
+        inboundBytes: Buffer.from(g711),
+        inboundBase64: Buffer.from(g711).toString('base64'),
+        outboundBytes: Buffer.from(pcm24k.buffer),
+        outboundBase64: Buffer.from(pcm24k.buffer).toString('base64')
+    };
+};
+
+const run = (name, createCall, convertFrame) => {
+    const calls = Array.from({ length: CONCURRENT_CALLS }, createCall);
+
+    // Warm up the JIT before timing.
+    for (let tick = 0; tick < 50; tick++) {
+        for (const call of calls) convertFrame(call);
+    }
+
+    const start = performance.now();
+    for (let tick = 0; tick < TICKS; tick++) {
+        for (const call of calls) convertFrame(call);
+    }
+    const elapsedMs = performance.now() - start;
+
+    const perTickMs = elapsedMs / TICKS;
+    const perFrameUs = (perTickMs * 1000) / CONCURRENT_CALLS;
+    const load = (perTickMs / FRAME_MS) * 100;
+    console.log(
+        `${name.padEnd(28)} ${perFrameUs.toFixed(2).padStart(8)} µs/call-frame ` +
+        `${perTickMs.toFixed(2).padStart(7)} ms/tick  ${load.toFixed(1).padStart(6)}% of one core`
+    );
+};
+
+const frames = makeFrames();
+console.log(`${CONCURRENT_CALLS} concurrent calls, ${SECONDS}s of audio, ${FRAME_MS} ms frames\n`);
+
+run('static base64 (AudioConverter)', () => null, () => {
+    AudioConverter.convertBase64MuLawToBase64PCM16k(frames.inboundBase64);
+    AudioConverter.convertBase64PCM24kToBase64MuLaw8k(frames.outboundBase64);
+});
+
+run('streaming base64', () => new StreamingAudioConverter(), (converter) => {
+    converter.convertBase64G711ToBase64PCM(frames.inboundBase64);
+    converter.convertBase64PCMToBase64G711(frames.outboundBase64);
+});
+
+run('streaming binary', () => new StreamingAudioConverter(), (converter) => {
+    converter.convertG711ToPCM(frames.inboundBytes);
+    converter.convertPCMToG711(frames.outboundBytes);
+});
+
+run('streaming binary (low)', () => new StreamingAudioConverter({ quality: 'low' }), (converter) => {
+    converter.convertG711ToPCM(frames.inboundBytes);
+    converter.convertPCMToG711(frames.outboundBytes);
+});
@@ -1,89 +1,73 @@
+import { decodeG711, decodeG711Sample, encodeG711, encodeG711Sample, G711Codec } from './g711.js';
+import { bytesToInt16Array, int16ArrayToBuffer } from './pcm.js';
+import { Resampler, ResamplerQuality } from './resampler.js';
+
 export class AudioConverter {
 
     private static base64ToUint8Array(base64: string): Uint8Array {
-        const binary = Buffer.from(base64, 'base64');
-        return new Uint8Array(binary);
+        return Buffer.from(base64, 'base64');
     }
 
     private static base64ToInt16Array(base64: string): Int16Array {
-        const buffer = Buffer.from(base64, 'base64');
-        return new Int16Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 2);
+        return bytesToInt16Array(Buffer.from(base64, 'base64'));
     }
 
-    private static muLawToPCM(muLawSample: number): number {
-        const BIAS = 0x84;
-        muLawSample = ~muLawSample;
-
-        const sign = muLawSample & 0x80;
-        const exponent = (muLawSample >> 4) & 0x07;
-        const mantissa = muLawSample & 0x0F;
+    static muLawToPCM(muLawSample: number): number {
+        return decodeG711Sample(muLawSample, 'mulaw');
+    }
 
-        let sample = ((mantissa << 3) + BIAS) << exponent;
-        if (sign !== 0) sample = -sample;
+    static pcmToMuLaw(sample: number): number {
+        return encodeG711Sample(sample, 'mulaw');
+    }
 
-        return sample;
+    static aLawToPCM(aLawSample: number): number {
+        return decodeG711Sample(aLawSample, 'alaw');
     }
 
-    static pcmToMuLaw(sample: number): number {
-        const BIAS = 0x84;
-        const CLIP = 32635;
+    static pcmToALaw(sample: number): number {
+        return encodeG711Sample(sample, 'alaw');
+    }
 
-        const sign = (sample >> 8) & 0x80;
-        if (sign !== 0) sample = -sample;
-        if (sample > CLIP) sample = CLIP;
+    static decodeG711(sample: number, codec: G711Codec): number {
+        return decodeG711Sample(sample, codec);
+    }
 
-        sample += BIAS;
+    static encodeG711(sample: number, codec: G711Codec): number {
+        return encodeG711Sample(sample, codec);
+    }
 
-        let exponent = 7;
-        for (let expMask = 0x4000; (sample & expMask) === 0 && exponent > 0; expMask >>= 1) {
-            exponent--;
-        }
+    /**
+     * Maps a media format encoding such as Twilio's `audio/x-mulaw` or an SDP name like `PCMA`
+     * to the G.711 variant it carries. Anything unrecognised is treated as μ-law, which is what
+     * Twilio streams by default.
+     */
+    static codecFromEncoding(encoding?: string): G711Codec {
+        const normalized = encoding?.toLowerCase() || '';
+        return normalized.includes('alaw') || normalized.includes('pcma') || normalized.includes('a-law') ? 'alaw' : 'mulaw';
+    }
 
-        const mantissa = (sample >> (exponent + 3)) & 0x0F;
-        const muLawByte = ~(sign | (exponent << 4) | mantissa);
+    static convertBase64G711ToBase64PCM16k(base64: string, codec: G711Codec): string {
+        const pcm8000 = decodeG711(this.base64ToUint8Array(base64), codec);
+        const pcm16000 = Resampler.resample(pcm8000, 8000, 16000);
+        return int16ArrayToBuffer(pcm16000).toString('base64');
+    }
 
-        return muLawByte & 0xFF;
+    static convertBase64PCM24kToBase64G711(base64: string, codec: G711Codec): string {
+        const pcm8k = Resampler.resample(this.base64ToInt16Array(base64), 24000, 8000);
+        return Buffer.from(encodeG711(pcm8k, codec)).toString('base64');
     }
 
     static convertBase64MuLawToBase64PCM16k(base64: string): string {
-        const muLawBytes = this.base64ToUint8Array(base64);
-        const pcm8000 = new Int16Array(muLawBytes.length);
-
-        for (let i = 0; i < muLawBytes.length; i++) {
-            pcm8000[i] = this.muLawToPCM(muLawBytes[i]);
-        }
-
-        const pcm16000 = new Int16Array(pcm8000.length * 2);
-        for (let i = 0; i < pcm8000.length; i++) {
-            const sample = pcm8000[i];
-            pcm16000[2 * i] = sample;
-            pcm16000[2 * i + 1] = sample;
-        }
-
-        const buffer = Buffer.from(pcm16000.buffer);
-        return buffer.toString('base64');
+        return this.convertBase64G711ToBase64PCM16k(base64, 'mulaw');
     }
 
     static convertBase64PCM24kToBase64MuLaw8k(base64: string): string {
-        const pcm24k = this.base64ToInt16Array(base64);
-
-        const samples8k = Math.floor(pcm24k.length / 3);
-        const interpolated = new Int16Array(samples8k);
-
-        for (let i = 0; i < samples8k; i++) {
-            const a = pcm24k[i * 3];
-            const b = pcm24k[i * 3 + 1] ?? a;
-            const c = pcm24k[i * 3 + 2] ?? b;
-
-            interpolated[i] = Math.round((a + b + c) / 3);
-        }
-
-        const muLaw = new Uint8Array(samples8k);
-        for (let i = 0; i < samples8k; i++) {
-            muLaw[i] = this.pcmToMuLaw(interpolated[i]);
-        }
+        return this.convertBase64PCM24kToBase64G711(base64, 'mulaw');
+    }
 
-        return Buffer.from(muLaw).toString('base64');
+    static resampleBase64PCM(base64: string, inputRate: number, outputRate: number, quality?: ResamplerQuality): string {
+        const output = Resampler.resample(this.base64ToInt16Array(base64), inputRate, outputRate, quality);
+        return int16ArrayToBuffer(output).toString('base64');
     }
 
 }
\ No newline at end of file
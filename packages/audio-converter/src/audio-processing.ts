@@ -0,0 +1,198 @@
+import { clamp16 } from './resampler.js';
+
+export interface DcBlockerOptions {
+    /** Pole of the one-pole high-pass; closer to 1 means a lower cutoff (0.995 ≈ 6 Hz at 8 kHz). */
+    pole?: number;
+}
+
+export interface GainControlOptions {
+    /** Long-term speech level the gain steers towards. */
+    targetDbfs?: number;
+    maxGainDb?: number;
+    minGainDb?: number;
+    /** Blocks quieter than this are treated as pauses and leave the gain untouched. */
+    noiseGateDbfs?: number;
+    /** How fast gain drops when audio gets louder. */
+    attackMs?: number;
+    /** How fast gain recovers when audio gets quieter. */
+    releaseMs?: number;
+}
+
+export interface ComfortNoiseOptions {
+    levelDbfs?: number;
+}
+
+export interface AudioProcessingOptions {
+    sampleRate?: number;
+    dcBlocker?: boolean | DcBlockerOptions;
+    gainControl?: boolean | GainControlOptions;
+    comfortNoise?: boolean | ComfortNoiseOptions;
+}
+
+const DEFAULT_GAIN_CONTROL: Required<GainControlOptions> = {
+    targetDbfs: -18,
+    maxGainDb: 12,
+    minGainDb: -6,
+    noiseGateDbfs: -50,
+    attackMs: 20,
+    releaseMs: 800
+};
+
+const dbToLinear = (db: number) => Math.pow(10, db / 20);
+
+/** One-pole, one-zero high-pass that removes DC offset without touching the voice band. */
+export class DcBlocker {
+
+    private readonly pole: number;
+    private previousInput = 0;
+    private previousOutput = 0;
+
+    constructor(options: DcBlockerOptions = {}) {
+        this.pole = options.pole ?? 0.995;
+    }
+
+    /** Filters `samples` in place and returns them. */
+    process(samples: Int16Array): Int16Array {
+        for (let i = 0; i < samples.length; i++) {
+            const input = samples[i];
+            const output = input - this.previousInput + this.pole * this.previousOutput;
+            this.previousInput = input;
+            this.previousOutput = output;
+            samples[i] = clamp16(output);
+        }
+        return samples;
+    }
+
+    reset() {
+        this.previousInput = 0;
+        this.previousOutput = 0;
+    }
+}
+
+/**
+ * Slow automatic gain control that brings quiet and loud voices towards a common level. The gain
+ * is measured on short blocks and ramped sample by sample, and peaks that would still clip after
+ * the gain are pulled back immediately.
+ */
+export class AutomaticGainControl {
+
+    private readonly options: Required<GainControlOptions>;
+    private readonly blockSize: number;
+    private readonly attack: number;
+    private readonly release: number;
+    private gainDb = 0;
+    private currentGain = 1;
+
+    constructor(options: GainControlOptions = {}, sampleRate: number = 8000) {
+        this.options = { ...DEFAULT_GAIN_CONTROL, ...options };
+        this.blockSize = Math.max(1, Math.round(sampleRate / 100));
+        const blocksPerSecond = sampleRate / this.blockSize;
+        this.attack = 1 - Math.exp(-1000 / (this.options.attackMs * blocksPerSecond));
+        this.release = 1 - Math.exp(-1000 / (this.options.releaseMs * blocksPerSecond));
+    }
+
+    /** Applies gain to `samples` in place and returns them. */
+    process(samples: Int16Array): Int16Array {
+        const { targetDbfs, maxGainDb, minGainDb, noiseGateDbfs } = this.options;
+
+        for (let start = 0; start < samples.length; start += this.blockSize) {
+            const end = Math.min(samples.length, start + this.blockSize);
+
+            let energy = 0;
+            let peak = 0;
+            for (let i = start; i < end; i++) {
+                energy += samples[i] * samples[i];
+                peak = Math.max(peak, Math.abs(samples[i]));
+            }
+            const levelDbfs = 20 * Math.log10(Math.sqrt(energy / (end - start)) / 32768 || 1e-10);
+
+            if (levelDbfs > noiseGateDbfs) {
+                const desiredDb = Math.min(maxGainDb, Math.max(minGainDb, targetDbfs - levelDbfs));
+                const rate = desiredDb < this.gainDb ? this.attack : this.release;
+                this.gainDb += (desiredDb - this.gainDb) * rate;
+            }
+
+            let targetGain = dbToLinear(this.gainDb);
+            if (peak * targetGain > 32767)
+                targetGain = 32767 / peak;
+
+            const step = (targetGain - this.currentGain) / (end - start);
+            for (let i = start; i < end; i++) {
+                this.currentGain += step;
+                samples[i] = clamp16(samples[i] * this.currentGain);
+            }
+            this.currentGain = targetGain;
+        }
+
+        return samples;
+    }
+
+    reset() {
+        this.gainDb = 0;
+        this.currentGain = 1;
+    }
+}
+
+/** Low-level, slightly low-passed noise that reassures callers the line is still open. */
+export class ComfortNoiseGenerator {
+
+    private readonly amplitude: number;
+    private previous = 0;
+
+    constructor(options: ComfortNoiseOptions = {}) {
+        // Uniform noise in [-a, a] has an RMS of a / √3.
+        this.amplitude = dbToLinear(options.levelDbfs ?? -60) * 32768 * Math.sqrt(3);
+    }
+
+    generate(sampleCount: number): Int16Array {
+        const noise = new Int16Array(sampleCount);
+        for (let i = 0; i < sampleCount; i++) {
+            const white = (Math.random() * 2 - 1) * this.amplitude;
+            this.previous = 0.5 * this.previous + 0.5 * white;
+            noise[i] = clamp16(this.previous * 1.4);
+        }
+        return noise;
+    }
+}
+
+/**
+ * Outbound processing chain for agent audio: DC blocker, then gain control. Comfort noise is not
+ * applied to speech; callers ask for it with `comfortNoise()` while the agent is silent.
+ */
+export class AudioProcessingChain {
+
+    private readonly dcBlocker?: DcBlocker;
+    private readonly gainControl?: AutomaticGainControl;
+    private readonly comfortNoiseGenerator?: ComfortNoiseGenerator;
+
+    constructor(options: AudioProcessingOptions = {}) {
+        const sampleRate = options.sampleRate || 8000;
+        if (options.dcBlocker)
+            this.dcBlocker = new DcBlocker(options.dcBlocker === true ? {} : options.dcBlocker);
+        if (options.gainControl)
+            this.gainControl = new AutomaticGainControl(options.gainControl === true ? {} : options.gainControl, sampleRate);
+        if (options.comfortNoise)
+            this.comfortNoiseGenerator = new ComfortNoiseGenerator(options.comfortNoise === true ? {} : options.comfortNoise);
+    }
+
+    get hasComfortNoise(): boolean {
+        return !!this.comfortNoiseGenerator;
+    }
+
+    /** Runs the enabled filters over `samples` in place and returns them. */
+    process(samples: Int16Array): Int16Array {
+        this.dcBlocker?.process(samples);
+        this.gainControl?.process(samples);
+        return samples;
+    }
+
+    /** Comfort noise for a silent stretch, or undefined when comfort noise is disabled. */
+    comfortNoise(sampleCount: number): Int16Array | undefined {
+        return this.comfortNoiseGenerator?.generate(sampleCount);
+    }
+
+    reset() {
+        this.dcBlocker?.reset();
+        this.gainControl?.reset();
+    }
+}
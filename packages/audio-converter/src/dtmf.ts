@@ -0,0 +1,261 @@
+import { clamp16 } from './resampler.js';
+
+export type DtmfDigit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '*' | '#' | 'A' | 'B' | 'C' | 'D';
+
+const ROW_FREQUENCIES = [697, 770, 852, 941];
+const COLUMN_FREQUENCIES = [1209, 1336, 1477, 1633];
+const KEYPAD: DtmfDigit[][] = [
+    ['1', '2', '3', 'A'],
+    ['4', '5', '6', 'B'],
+    ['7', '8', '9', 'C'],
+    ['*', '0', '#', 'D']
+];
+
+export interface DtmfDetectorOptions {
+    sampleRate?: number;
+    /** Goertzel block length; ~25 ms resolves adjacent DTMF frequencies at telephone rates. */
+    blockMs?: number;
+    /** Each of the two tones must be at least this loud. */
+    minToneDbfs?: number;
+    /** Share of the block energy the two tones must carry, which rejects speech and music. */
+    minToneRatio?: number;
+    /** Maximum level difference between the row and column tones. */
+    maxTwistDb?: number;
+    /** Consecutive blocks with the same digit needed before it is reported. */
+    minBlocks?: number;
+}
+
+export interface DtmfGeneratorOptions {
+    sampleRate?: number;
+    toneMs?: number;
+    gapMs?: number;
+    /** Level of each of the two tones. */
+    levelDbfs?: number;
+    /** Silence inserted for each `w` or `,` in a digit string, as in Twilio's `sendDigits`. */
+    pauseMs?: number;
+}
+
+const DEFAULT_DETECTOR_OPTIONS: Required<DtmfDetectorOptions> = {
+    sampleRate: 8000,
+    blockMs: 25.6,
+    minToneDbfs: -36,
+    minToneRatio: 0.7,
+    maxTwistDb: 8,
+    minBlocks: 2
+};
+
+const DEFAULT_GENERATOR_OPTIONS: Required<DtmfGeneratorOptions> = {
+    sampleRate: 8000,
+    toneMs: 100,
+    gapMs: 70,
+    levelDbfs: -9,
+    pauseMs: 500
+};
+
+/**
+ * In-band DTMF detector for trunks that leave key presses in the audio instead of signalling them
+ * out of band. Each block is tested with the Goertzel algorithm at the eight DTMF frequencies, and
+ * a digit is reported once per key press after it has been stable for `minBlocks` blocks.
+ */
+export class DtmfDetector {
+
+    public onDigit?: (digit: DtmfDigit) => void;
+
+    private readonly options: Required<DtmfDetectorOptions>;
+    private readonly block: Int16Array;
+    private readonly rowCoefficients: number[];
+    private readonly columnCoefficients: number[];
+    private blockFill = 0;
+
+    private candidate?: DtmfDigit;
+    private candidateBlocks = 0;
+    private reported = false;
+
+    constructor(options: DtmfDetectorOptions = {}) {
+        this.options = { ...DEFAULT_DETECTOR_OPTIONS, ...options };
+        this.block = new Int16Array(Math.round((this.options.sampleRate * this.options.blockMs) / 1000));
+        const coefficient = (frequency: number) => 2 * Math.cos((2 * Math.PI * frequency) / this.options.sampleRate);
+        this.rowCoefficients = ROW_FREQUENCIES.map(coefficient);
+        this.columnCoefficients = COLUMN_FREQUENCIES.map(coefficient);
+    }
+
+    /** Feeds PCM samples and returns the digits whose key press was recognised in them. */
+    process(samples: Int16Array): DtmfDigit[] {
+        const digits: DtmfDigit[] = [];
+        let offset = 0;
+        while (offset < samples.length) {
+            const count = Math.min(samples.length - offset, this.block.length - this.blockFill);
+            this.block.set(samples.subarray(offset, offset + count), this.blockFill);
+            this.blockFill += count;
+            offset += count;
+
+            if (this.blockFill === this.block.length) {
+                this.blockFill = 0;
+                const digit = this.track(this.analyze(this.block));
+                if (digit) {
+                    digits.push(digit);
+                    this.onDigit?.(digit);
+                }
+            }
+        }
+        return digits;
+    }
+
+    reset() {
+        this.blockFill = 0;
+        this.candidate = undefined;
+        this.candidateBlocks = 0;
+        this.reported = false;
+    }
+
+    private track(digit: DtmfDigit | undefined): DtmfDigit | undefined {
+        if (digit !== this.candidate) {
+            this.candidate = digit;
+            this.candidateBlocks = 0;
+            this.reported = false;
+        }
+        if (!digit)
+            return undefined;
+
+        this.candidateBlocks++;
+        if (this.reported || this.candidateBlocks < this.options.minBlocks)
+            return undefined;
+
+        this.reported = true;
+        return digit;
+    }
+
+    private analyze(block: Int16Array): DtmfDigit | undefined {
+        const { minToneDbfs, minToneRatio, maxTwistDb } = this.options;
+
+        let energy = 0;
+        for (let i = 0; i < block.length; i++)
+            energy += block[i] * block[i];
+        if (energy === 0)
+            return undefined;
+
+        const rows = this.rowCoefficients.map(c => goertzelPower(block, c));
+        const columns = this.columnCoefficients.map(c => goertzelPower(block, c));
+        const row = strongest(rows);
+        const column = strongest(columns);
+        if (row < 0 || column < 0)
+            return undefined;
+
+        // A full-scale sine at the analysed frequency has power (N / 2)² * 32768², and the same
+        // sine contributes N / 2 * 32768² to the block energy.
+        const n = block.length;
+        const rowLevel = rows[row] / ((n / 2) * (n / 2) * 32768 * 32768);
+        const columnLevel = columns[column] / ((n / 2) * (n / 2) * 32768 * 32768);
+        // Levels are peak amplitude squared; a sine's RMS is 3 dB below its peak.
+        const minLevel = 2 * Math.pow(10, minToneDbfs / 10);
+        if (rowLevel < minLevel || columnLevel < minLevel)
+            return undefined;
+
+        const twistDb = Math.abs(10 * Math.log10(rowLevel / columnLevel));
+        if (twistDb > maxTwistDb)
+            return undefined;
+
+        const toneEnergy = ((rows[row] + columns[column]) * 2) / n;
+        if (toneEnergy / energy < minToneRatio)
+            return undefined;
+
+        return KEYPAD[row][column];
+    }
+}
+
+/** Synthesizes DTMF key presses, e.g. to navigate a remote IVR during an outbound call. */
+export class DtmfGenerator {
+
+    private readonly options: Required<DtmfGeneratorOptions>;
+
+    constructor(options: DtmfGeneratorOptions = {}) {
+        this.options = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+    }
+
+    static isValidDigits(digits: string): boolean {
+        return /^[0-9A-Da-d*#wW,]+$/.test(digits);
+    }
+
+    /**
+     * Renders a digit string as PCM. Each digit is a tone followed by a gap; `w` and `,` insert a
+     * pause instead.
+     */
+    generate(digits: string): Int16Array {
+        if (!DtmfGenerator.isValidDigits(digits))
+            throw new RangeError(`Invalid DTMF digits: ${digits}`);
+
+        const { sampleRate, toneMs, gapMs, levelDbfs, pauseMs } = this.options;
+        const toneSamples = Math.round((sampleRate * toneMs) / 1000);
+        const gapSamples = Math.round((sampleRate * gapMs) / 1000);
+        const pauseSamples = Math.round((sampleRate * pauseMs) / 1000);
+        const rampSamples = Math.min(Math.round(sampleRate / 500), Math.floor(toneSamples / 2));
+        const amplitude = Math.pow(10, levelDbfs / 20) * 32768 * Math.SQRT2;
+
+        let length = 0;
+        for (const char of digits)
+            length += isPause(char) ? pauseSamples : toneSamples + gapSamples;
+
+        const output = new Int16Array(length);
+        let offset = 0;
+        for (const char of digits) {
+            if (isPause(char)) {
+                offset += pauseSamples;
+                continue;
+            }
+
+            const [row, column] = keypadPosition(char.toUpperCase() as DtmfDigit);
+            const rowStep = (2 * Math.PI * ROW_FREQUENCIES[row]) / sampleRate;
+            const columnStep = (2 * Math.PI * COLUMN_FREQUENCIES[column]) / sampleRate;
+            for (let i = 0; i < toneSamples; i++) {
+                // Short ramps at both ends keep the tone edges from clicking.
+                const edge = Math.min(i, toneSamples - 1 - i);
+                const envelope = edge < rampSamples ? edge / rampSamples : 1;
+                output[offset + i] = clamp16(amplitude * envelope * (Math.sin(rowStep * i) + Math.sin(columnStep * i)));
+            }
+            offset += toneSamples + gapSamples;
+        }
+
+        return output;
+    }
+}
+
+function isPause(char: string): boolean {
+    return char === 'w' || char === 'W' || char === ',';
+}
+
+function keypadPosition(digit: DtmfDigit): [number, number] {
+    for (let row = 0; row < KEYPAD.length; row++) {
+        const column = KEYPAD[row].indexOf(digit);
+        if (column >= 0)
+            return [row, column];
+    }
+    throw new RangeError(`Invalid DTMF digit: ${digit}`);
+}
+
+function goertzelPower(block: Int16Array, coefficient: number): number {
+    let previous = 0;
+    let beforePrevious = 0;
+    for (let i = 0; i < block.length; i++) {
+        const current = block[i] + coefficient * previous - beforePrevious;
+        beforePrevious = previous;
+        previous = current;
+    }
+    return previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious;
+}
+
+function strongest(powers: number[]): number {
+    let best = -1;
+    let bestPower = 0;
+    let runnerUp = 0;
+    for (let i = 0; i < powers.length; i++) {
+        if (powers[i] > bestPower) {
+            runnerUp = bestPower;
+            bestPower = powers[i];
+            best = i;
+        } else if (powers[i] > runnerUp) {
+            runnerUp = powers[i];
+        }
+    }
+    // The winning tone must stand 6 dB clear of the rest of its group.
+    return bestPower > 4 * runnerUp ? best : -1;
+}
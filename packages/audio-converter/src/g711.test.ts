@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { decodeG711, decodeG711Sample, encodeG711, encodeG711Sample, G711Codec } from './g711.js';
+
+// ITU-T G.711 Tables 1a (A-law) and 2a (μ-law): the decoder output of the first step of each
+// segment and the step size within it, in the tables' 13-bit (A-law) and 14-bit (μ-law) units.
+const ITU_TABLES: Record<G711Codec, { segmentStart: number[], stepSize: number[], scale: number }> = {
+    alaw: {
+        segmentStart: [1, 33, 66, 132, 264, 528, 1056, 2112],
+        stepSize: [2, 2, 4, 8, 16, 32, 64, 128],
+        scale: 8
+    },
+    mulaw: {
+        segmentStart: [0, 33, 99, 231, 495, 1023, 2079, 4191],
+        stepSize: [2, 4, 8, 16, 32, 64, 128, 256],
+        scale: 4
+    }
+};
+
+// In both laws a set sign bit means a positive sample. A-law goes on the line with its even bits
+// inverted and μ-law with its seven magnitude bits inverted.
+const LINE_INVERSION: Record<G711Codec, number> = { alaw: 0x55, mulaw: 0x7F };
+
+function referenceSegment(code: number, codec: G711Codec) {
+    const character = code ^ LINE_INVERSION[codec];
+    return {
+        positive: (character & 0x80) !== 0,
+        segment: (character >> 4) & 0x07,
+        step: character & 0x0F
+    };
+}
+
+function referenceDecode(code: number, codec: G711Codec): number {
+    const { positive, segment, step } = referenceSegment(code, codec);
+    const table = ITU_TABLES[codec];
+    const magnitude = (table.segmentStart[segment] + step * table.stepSize[segment]) * table.scale;
+    return positive || magnitude === 0 ? magnitude : -magnitude;
+}
+
+const CODES = Array.from({ length: 256 }, (_, code) => code);
+
+describe.each<G711Codec>(['alaw', 'mulaw'])('G.711 %s', (codec) => {
+    const table = ITU_TABLES[codec];
+    const peak = (table.segmentStart[7] + 15 * table.stepSize[7]) * table.scale;
+
+    it('decodes every code to the ITU reference value', () => {
+        for (const code of CODES)
+            expect(decodeG711Sample(code, codec), `code 0x${code.toString(16)}`).toBe(referenceDecode(code, codec));
+    });
+
+    it('round-trips every code through its reference value', () => {
+        for (const code of CODES) {
+            // μ-law has two codes for zero; the encoder emits the positive one.
+            const expected = codec === 'mulaw' && code === 0x7F ? 0xFF : code;
+            expect(encodeG711Sample(referenceDecode(code, codec), codec), `code 0x${code.toString(16)}`).toBe(expected);
+        }
+    });
+
+    it('quantizes every 16-bit sample to within half a step of its reference value', () => {
+        for (let sample = -32768; sample <= 32767; sample++) {
+            const code = encodeG711Sample(sample, codec);
+            const decoded = referenceDecode(code, codec);
+            const { segment } = referenceSegment(code, codec);
+            const halfStep = (table.stepSize[segment] * table.scale) / 2;
+            const clipped = Math.max(-peak, Math.min(peak, sample));
+            expect(Math.abs(decoded - clipped), `sample ${sample}`).toBeLessThanOrEqual(halfStep);
+        }
+    });
+
+    it('converts buffers through the same tables as single samples', () => {
+        const pcm = Int16Array.from([0, 1, -1, 1000, -1000, 32767, -32768, 12345]);
+        const encoded = encodeG711(pcm, codec);
+        expect(Array.from(encoded)).toEqual(Array.from(pcm, sample => encodeG711Sample(sample, codec)));
+
+        const output = new Int16Array(pcm.length);
+        expect(decodeG711(encoded, codec, output)).toBe(output);
+        expect(Array.from(output)).toEqual(Array.from(encoded, code => referenceDecode(code, codec)));
+    });
+});
+
+describe('G.711 reference points', () => {
+    it('matches the ITU extremes and zero codes', () => {
+        expect(decodeG711Sample(0xFF, 'mulaw')).toBe(0);
+        expect(decodeG711Sample(0x7F, 'mulaw')).toBe(0);
+        expect(decodeG711Sample(0x80, 'mulaw')).toBe(32124);
+        expect(decodeG711Sample(0x00, 'mulaw')).toBe(-32124);
+
+        expect(decodeG711Sample(0xD5, 'alaw')).toBe(8);
+        expect(decodeG711Sample(0x55, 'alaw')).toBe(-8);
+        expect(decodeG711Sample(0xAA, 'alaw')).toBe(32256);
+        expect(decodeG711Sample(0x2A, 'alaw')).toBe(-32256);
+    });
+
+    it('clamps out-of-range samples before encoding', () => {
+        expect(encodeG711Sample(40000, 'mulaw')).toBe(encodeG711Sample(32767, 'mulaw'));
+        expect(encodeG711Sample(-40000, 'alaw')).toBe(encodeG711Sample(-32768, 'alaw'));
+    });
+});
@@ -0,0 +1,122 @@
+export type G711Codec = 'mulaw' | 'alaw';
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+const ALAW_SEGMENT_ENDS = [0x1F, 0x3F, 0x7F, 0xFF, 0x1FF, 0x3FF, 0x7FF, 0xFFF];
+
+function muLawToLinear(muLawSample: number): number {
+    muLawSample = ~muLawSample;
+
+    const sign = muLawSample & 0x80;
+    const exponent = (muLawSample >> 4) & 0x07;
+    const mantissa = muLawSample & 0x0F;
+
+    const sample = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+    return sign !== 0 ? -sample : sample;
+}
+
+function linearToMuLaw(sample: number): number {
+    const sign = (sample >> 8) & 0x80;
+    if (sign !== 0) sample = -sample;
+    if (sample > MULAW_CLIP) sample = MULAW_CLIP;
+
+    sample += MULAW_BIAS;
+
+    let exponent = 7;
+    for (let expMask = 0x4000; (sample & expMask) === 0 && exponent > 0; expMask >>= 1) {
+        exponent--;
+    }
+
+    const mantissa = (sample >> (exponent + 3)) & 0x0F;
+    return ~(sign | (exponent << 4) | mantissa) & 0xFF;
+}
+
+function aLawToLinear(aLawSample: number): number {
+    aLawSample ^= 0x55;
+
+    const exponent = (aLawSample >> 4) & 0x07;
+    let sample = (aLawSample & 0x0F) << 4;
+    if (exponent === 0) {
+        sample += 8;
+    } else {
+        sample = (sample + 0x108) << (exponent - 1);
+    }
+
+    return (aLawSample & 0x80) !== 0 ? sample : -sample;
+}
+
+function linearToALaw(sample: number): number {
+    let mask: number;
+    sample >>= 3;
+    if (sample >= 0) {
+        mask = 0xD5;
+    } else {
+        mask = 0x55;
+        sample = -sample - 1;
+    }
+
+    let segment = 0;
+    while (segment < 8 && sample > ALAW_SEGMENT_ENDS[segment]) {
+        segment++;
+    }
+    if (segment >= 8)
+        return 0x7F ^ mask;
+
+    const mantissa = (sample >> (segment < 2 ? 1 : segment)) & 0x0F;
+    return ((segment << 4) | mantissa) ^ mask;
+}
+
+function buildDecodeTable(decode: (sample: number) => number): Int16Array {
+    const table = new Int16Array(256);
+    for (let i = 0; i < 256; i++) {
+        table[i] = decode(i);
+    }
+    return table;
+}
+
+// Encode tables are indexed by the sample's 16-bit two's complement pattern, so a lookup is
+// just `table[sample & 0xFFFF]`.
+function buildEncodeTable(encode: (sample: number) => number): Uint8Array {
+    const table = new Uint8Array(65536);
+    for (let i = 0; i < 65536; i++) {
+        table[i] = encode(i < 32768 ? i : i - 65536);
+    }
+    return table;
+}
+
+const DECODE_TABLES: Record<G711Codec, Int16Array> = {
+    mulaw: buildDecodeTable(muLawToLinear),
+    alaw: buildDecodeTable(aLawToLinear)
+};
+
+const ENCODE_TABLES: Record<G711Codec, Uint8Array> = {
+    mulaw: buildEncodeTable(linearToMuLaw),
+    alaw: buildEncodeTable(linearToALaw)
+};
+
+export function decodeG711Sample(sample: number, codec: G711Codec): number {
+    return DECODE_TABLES[codec][sample & 0xFF];
+}
+
+export function encodeG711Sample(sample: number, codec: G711Codec): number {
+    const clamped = sample > 32767 ? 32767 : sample < -32768 ? -32768 : sample;
+    return ENCODE_TABLES[codec][clamped & 0xFFFF];
+}
+
+/** Decodes a G.711 byte stream into `output`, which is allocated when omitted. */
+export function decodeG711(input: Uint8Array, codec: G711Codec, output = new Int16Array(input.length)): Int16Array {
+    const table = DECODE_TABLES[codec];
+    for (let i = 0; i < input.length; i++) {
+        output[i] = table[input[i]];
+    }
+    return output;
+}
+
+/** Encodes 16-bit PCM into G.711 bytes in `output`, which is allocated when omitted. */
+export function encodeG711(input: Int16Array, codec: G711Codec, output = new Uint8Array(input.length)): Uint8Array {
+    const table = ENCODE_TABLES[codec];
+    for (let i = 0; i < input.length; i++) {
+        output[i] = table[input[i] & 0xFFFF];
+    }
+    return output;
+}
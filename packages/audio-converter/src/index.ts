@@ -1 +1,16 @@
-export { AudioConverter } from './audio-converter';
\ No newline at end of file
+export { AudioConverter } from './audio-converter.js';
+export { AudioProcessingChain, AutomaticGainControl, ComfortNoiseGenerator, DcBlocker } from './audio-processing.js';
+export type { AudioProcessingOptions, ComfortNoiseOptions, DcBlockerOptions, GainControlOptions } from './audio-processing.js';
+export { DtmfDetector, DtmfGenerator } from './dtmf.js';
+export type { DtmfDetectorOptions, DtmfDigit, DtmfGeneratorOptions } from './dtmf.js';
+export { decodeG711, encodeG711 } from './g711.js';
+export type { G711Codec } from './g711.js';
+export { bytesToInt16Array, int16ArrayToBuffer } from './pcm.js';
+export { clamp16, Resampler, RESAMPLER_QUALITY_PRESETS } from './resampler.js';
+export type { ResamplerQuality, ResamplerQualityPreset } from './resampler.js';
+export { StreamingAudioConverter } from './streaming-audio-converter.js';
+export type { StreamingAudioConverterOptions } from './streaming-audio-converter.js';
+export { VoiceActivityDetector } from './voice-activity-detector.js';
+export type { VoiceActivityDetectorOptions, VoiceActivityFrame } from './voice-activity-detector.js';
+export { decodeWav, downmix, encodeWav, interleave } from './wav.js';
+export type { DecodedWav, WavFormat } from './wav.js';
@@ -0,0 +1,17 @@
+/**
+ * Views little-endian 16-bit PCM bytes as samples. Buffers decoded from base64 often come from
+ * Node's shared pool at an odd byte offset, in which case the samples are copied instead.
+ */
+export function bytesToInt16Array(bytes: Uint8Array): Int16Array {
+    const length = bytes.byteLength >> 1;
+    if (bytes.byteOffset % 2 === 0)
+        return new Int16Array(bytes.buffer, bytes.byteOffset, length);
+
+    const samples = new Int16Array(length);
+    new Uint8Array(samples.buffer).set(bytes.subarray(0, length * 2));
+    return samples;
+}
+
+export function int16ArrayToBuffer(samples: Int16Array): Buffer {
+    return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+}
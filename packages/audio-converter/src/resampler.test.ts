@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { Resampler, RESAMPLER_QUALITY_PRESETS, ResamplerQuality } from './resampler.js';
+
+const AMPLITUDE = 10000;
+
+function sine(frequency: number, rate: number, seconds = 0.5): Int16Array {
+    const samples = new Int16Array(Math.round(rate * seconds));
+    for (let i = 0; i < samples.length; i++)
+        samples[i] = Math.round(AMPLITUDE * Math.sin((2 * Math.PI * frequency * i) / rate));
+    return samples;
+}
+
+// RMS over the middle of the buffer, away from the filter's start-up and tail transients.
+function steadyRms(samples: Int16Array): number {
+    const margin = Math.floor(samples.length / 5);
+    let sum = 0;
+    for (let i = margin; i < samples.length - margin; i++)
+        sum += samples[i] * samples[i];
+    return Math.sqrt(sum / (samples.length - 2 * margin));
+}
+
+function gainDb(frequency: number, inputRate: number, outputRate: number, quality: ResamplerQuality): number {
+    const output = new Resampler(inputRate, outputRate, quality).process(sine(frequency, inputRate));
+    return 20 * Math.log10(steadyRms(output) / (AMPLITUDE / Math.SQRT2));
+}
+
+function sweep(from: number, to: number, steps: number): number[] {
+    return Array.from({ length: steps }, (_, i) => from + ((to - from) * i) / (steps - 1));
+}
+
+describe('Resampler', () => {
+
+    it('reduces rates by the exact ratio', () => {
+        expect(new Resampler(24000, 8000).outputLength(480)).toBe(160);
+        expect(new Resampler(8000, 16000).outputLength(160)).toBe(320);
+        expect(new Resampler(48000, 16000).outputLength(960)).toBe(320);
+        expect(new Resampler(16000, 24000).outputLength(320)).toBe(480);
+    });
+
+    it('rejects invalid sample rates', () => {
+        expect(() => new Resampler(0, 8000)).toThrow(RangeError);
+        expect(() => new Resampler(8000.5, 16000)).toThrow(RangeError);
+    });
+
+    describe.each<[number, number]>([
+        [24000, 8000],
+        [48000, 16000],
+        [16000, 8000],
+        [8000, 16000],
+        [8000, 24000],
+        [16000, 24000]
+    ])('%i Hz -> %i Hz', (inputRate, outputRate) => {
+        const nyquist = Math.min(inputRate, outputRate) / 2;
+
+        it.each<[ResamplerQuality, number]>([
+            ['low', 0.3],
+            ['medium', 0.1],
+            ['high', 0.05]
+        ])('keeps passband ripple small at %s quality', (quality, maxRippleDb) => {
+            // The sweep stops short of each preset's rolloff, where the transition band begins.
+            const passbandEdge = nyquist * RESAMPLER_QUALITY_PRESETS[quality].rolloff * 0.8;
+            const gains = sweep(100, passbandEdge, 25).map(frequency => gainDb(frequency, inputRate, outputRate, quality));
+            expect(Math.max(...gains.map(Math.abs))).toBeLessThan(maxRippleDb);
+        });
+    });
+
+    describe.each<[number, number]>([
+        [24000, 8000],
+        [48000, 16000],
+        [16000, 8000],
+        [48000, 8000]
+    ])('%i Hz -> %i Hz', (inputRate, outputRate) => {
+        const outputNyquist = outputRate / 2;
+
+        it.each<[ResamplerQuality, number]>([
+            ['low', -40],
+            ['medium', -55],
+            ['high', -70]
+        ])('suppresses aliasing of tones above the output Nyquist at %s quality', (quality, maxAliasDb) => {
+            // Sweeping from just past the stopband edge up to the input Nyquist covers every
+            // frequency that would fold back into the telephone band.
+            const gains = sweep(outputNyquist * 1.1, inputRate / 2 * 0.98, 25).map(frequency => gainDb(frequency, inputRate, outputRate, quality));
+            expect(Math.max(...gains)).toBeLessThan(maxAliasDb);
+        });
+    });
+
+    it('streams chunk by chunk to the same samples as a one-shot pass', () => {
+        const input = sine(440, 24000, 0.2);
+        const expected = new Resampler(24000, 8000).process(input);
+
+        const resampler = new Resampler(24000, 8000);
+        const chunks: number[] = [];
+        // 161 is deliberately not a multiple of the 3:1 ratio so remainders carry over.
+        for (let offset = 0; offset < input.length; offset += 161)
+            chunks.push(...resampler.push(input.subarray(offset, offset + 161)));
+        chunks.push(...resampler.flush());
+
+        expect(Int16Array.from(chunks.slice(0, expected.length))).toEqual(expected);
+    });
+
+    it('resets stream state after flush', () => {
+        const resampler = new Resampler(8000, 16000);
+        const first = Array.from(resampler.push(sine(1000, 8000, 0.05)));
+        resampler.flush();
+        const second = Array.from(resampler.push(sine(1000, 8000, 0.05)));
+        expect(second).toEqual(first);
+    });
+});
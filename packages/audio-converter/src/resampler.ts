@@ -0,0 +1,249 @@
+export type ResamplerQuality = 'low' | 'medium' | 'high';
+
+export interface ResamplerQualityPreset {
+    /** Sinc zero crossings kept on each side of the filter center. */
+    zeroCrossings: number;
+    /** Passband edge as a fraction of the narrower Nyquist frequency. */
+    rolloff: number;
+    /** Kaiser window shape; higher values trade transition width for stopband attenuation. */
+    kaiserBeta: number;
+}
+
+export const RESAMPLER_QUALITY_PRESETS: Record<ResamplerQuality, ResamplerQualityPreset> = {
+    low: { zeroCrossings: 8, rolloff: 0.8, kaiserBeta: 5 },
+    medium: { zeroCrossings: 16, rolloff: 0.88, kaiserBeta: 7 },
+    high: { zeroCrossings: 32, rolloff: 0.94, kaiserBeta: 9 }
+};
+
+/**
+ * Rational-ratio resampler built on a windowed-sinc FIR split into a polyphase bank.
+ *
+ * The prototype low-pass runs at `inputRate * upFactor` with its cutoff at the lower of the two
+ * Nyquist frequencies, so the same filter removes interpolation images and decimation aliases.
+ */
+export class Resampler {
+
+    private static readonly cache = new Map<string, Resampler>();
+
+    readonly upFactor: number;
+    readonly downFactor: number;
+    readonly tapsPerPhase: number;
+
+    private readonly delay: number;
+    private readonly phases: Float64Array[];
+
+    // Streaming state: `work` holds the retained history followed by the incoming chunk, and
+    // `output` is reused across calls to avoid per-frame allocations.
+    private work = new Int16Array(0);
+    private historyLength = 0;
+    private historyStart = 0;
+    private nextOutput = 0;
+    private output = new Int16Array(0);
+    private readonly padding: Int16Array;
+
+    constructor(
+        readonly inputRate: number,
+        readonly outputRate: number,
+        readonly quality: ResamplerQuality = 'medium'
+    ) {
+        if (!Number.isInteger(inputRate) || !Number.isInteger(outputRate) || inputRate <= 0 || outputRate <= 0)
+            throw new RangeError(`Invalid sample rates: ${inputRate} -> ${outputRate}`);
+
+        const divisor = gcd(inputRate, outputRate);
+        this.upFactor = outputRate / divisor;
+        this.downFactor = inputRate / divisor;
+
+        const preset = RESAMPLER_QUALITY_PRESETS[quality];
+        const ratio = Math.max(this.upFactor, this.downFactor);
+        this.tapsPerPhase = Math.ceil((2 * preset.zeroCrossings * ratio) / (preset.rolloff * this.upFactor));
+        this.delay = Math.floor((this.tapsPerPhase * this.upFactor) / 2);
+        this.phases = this.designPhases(preset, ratio);
+        this.padding = new Int16Array(Math.ceil(this.delay / this.upFactor) + 1);
+        this.reset();
+    }
+
+    static resample(input: Int16Array, inputRate: number, outputRate: number, quality: ResamplerQuality = 'medium'): Int16Array {
+        if (inputRate === outputRate)
+            return input.slice();
+
+        const key = `${inputRate}:${outputRate}:${quality}`;
+        let resampler = this.cache.get(key);
+        if (!resampler) {
+            resampler = new Resampler(inputRate, outputRate, quality);
+            this.cache.set(key, resampler);
+        }
+        return resampler.process(input);
+    }
+
+    outputLength(inputLength: number): number {
+        return Math.floor((inputLength * this.upFactor) / this.downFactor);
+    }
+
+    /**
+     * Resamples a complete buffer. Samples outside the buffer are treated as silence, so this is
+     * meant for self-contained clips rather than consecutive chunks of one stream.
+     */
+    process(input: Int16Array): Int16Array {
+        const output = new Int16Array(this.outputLength(input.length));
+        const { upFactor, downFactor, tapsPerPhase, delay, phases } = this;
+
+        for (let m = 0; m < output.length; m++) {
+            const position = m * downFactor + delay;
+            const newest = Math.floor(position / upFactor);
+            const taps = phases[position - newest * upFactor];
+            const oldest = newest - tapsPerPhase + 1;
+
+            let acc = 0;
+            const first = Math.max(0, -oldest);
+            const last = Math.min(tapsPerPhase - 1, input.length - 1 - oldest);
+            for (let t = first; t <= last; t++)
+                acc += taps[t] * input[oldest + t];
+
+            output[m] = clamp16(acc);
+        }
+
+        return output;
+    }
+
+    /**
+     * Resamples the next chunk of a continuous stream. Filter history and the fractional output
+     * phase carry over between calls, so chunk boundaries are inaudible and no samples are lost
+     * when a chunk length is not a multiple of the rate ratio. Output lags input by roughly half
+     * the filter length; call `flush()` at the end of the stream to drain it.
+     *
+     * The returned array is a view into a buffer reused by the next `push()` or `flush()`.
+     */
+    push(chunk: Int16Array): Int16Array {
+        return this.consume(chunk, Infinity);
+    }
+
+    /** Emits the samples still held back by the filter delay and resets the stream state. */
+    flush(): Int16Array {
+        const inputEnd = this.historyStart + this.historyLength;
+        const limit = Math.ceil((inputEnd * this.upFactor) / this.downFactor);
+        const output = this.consume(this.padding, limit);
+        this.reset();
+        return output;
+    }
+
+    /** Discards buffered samples, e.g. when queued playback is cancelled. */
+    reset() {
+        // Priming with a filter's worth of silence lets the first outputs read "before" the
+        // stream start without bounds checks.
+        if (this.work.length < this.tapsPerPhase)
+            this.work = new Int16Array(this.tapsPerPhase * 4);
+        this.work.fill(0, 0, this.tapsPerPhase);
+        this.historyLength = this.tapsPerPhase;
+        this.historyStart = -this.tapsPerPhase;
+        this.nextOutput = 0;
+    }
+
+    private consume(chunk: Int16Array, limit: number): Int16Array {
+        const { upFactor, downFactor, tapsPerPhase, delay, phases } = this;
+
+        const length = this.historyLength + chunk.length;
+        if (this.work.length < length) {
+            const grown = new Int16Array(Math.max(length, this.work.length * 2));
+            grown.set(this.work.subarray(0, this.historyLength));
+            this.work = grown;
+        }
+        const buffer = this.work;
+        buffer.set(chunk, this.historyLength);
+        const start = this.historyStart;
+        const end = start + length;
+
+        const stop = Math.max(this.nextOutput, Math.min(limit, Math.ceil((end * upFactor - delay) / downFactor)));
+        const count = stop - this.nextOutput;
+        if (this.output.length < count)
+            this.output = new Int16Array(Math.max(count, this.output.length * 2));
+        const output = this.output;
+
+        for (let m = this.nextOutput, i = 0; m < stop; m++, i++) {
+            const position = m * downFactor + delay;
+            const newest = Math.floor(position / upFactor);
+            const taps = phases[position - newest * upFactor];
+            const oldest = newest - start - tapsPerPhase + 1;
+
+            let acc = 0;
+            for (let t = 0; t < tapsPerPhase; t++)
+                acc += taps[t] * buffer[oldest + t];
+
+            output[i] = clamp16(acc);
+        }
+
+        this.nextOutput = stop;
+        const oldestNeeded = Math.floor((stop * downFactor + delay) / upFactor) - tapsPerPhase + 1;
+        const keepFrom = Math.min(length, Math.max(0, oldestNeeded - start));
+        buffer.copyWithin(0, keepFrom, length);
+        this.historyLength = length - keepFrom;
+        this.historyStart = start + keepFrom;
+
+        // Rebase indices every full period so long calls never grow them without bound.
+        const periods = Math.floor(this.nextOutput / upFactor);
+        if (periods > 0) {
+            this.nextOutput -= periods * upFactor;
+            this.historyStart -= periods * downFactor;
+        }
+
+        return output.subarray(0, count);
+    }
+
+    private designPhases(preset: ResamplerQualityPreset, ratio: number): Float64Array[] {
+        const { upFactor, tapsPerPhase, delay } = this;
+        const halfLength = (tapsPerPhase * upFactor) / 2;
+        const cutoff = (0.5 * preset.rolloff) / ratio;
+        const windowNorm = besselI0(preset.kaiserBeta);
+
+        const phases: Float64Array[] = [];
+        for (let p = 0; p < upFactor; p++) {
+            const taps = new Float64Array(tapsPerPhase);
+            let sum = 0;
+            for (let t = 0; t < tapsPerPhase; t++) {
+                const x = p + t * upFactor - delay;
+                const r = x / halfLength;
+                const window = Math.abs(r) >= 1 ? 0 : besselI0(preset.kaiserBeta * Math.sqrt(1 - r * r)) / windowNorm;
+                taps[t] = sinc(2 * cutoff * x) * window;
+                sum += taps[t];
+            }
+            // Normalizing every phase to unity DC gain keeps interpolated output free of gain
+            // ripple at the upsampling factor.
+            for (let t = 0; t < tapsPerPhase; t++)
+                taps[t] /= sum;
+            // Stored oldest-first so the inner loops walk the input forwards.
+            phases.push(taps.reverse());
+        }
+
+        return phases;
+    }
+}
+
+function gcd(a: number, b: number): number {
+    while (b)
+        [a, b] = [b, a % b];
+    return a;
+}
+
+function sinc(x: number): number {
+    if (x === 0)
+        return 1;
+    const px = Math.PI * x;
+    return Math.sin(px) / px;
+}
+
+function besselI0(x: number): number {
+    let sum = 1;
+    let term = 1;
+    const halfX = x / 2;
+    for (let k = 1; k < 50; k++) {
+        term *= (halfX / k) * (halfX / k);
+        sum += term;
+        if (term < sum * 1e-12)
+            break;
+    }
+    return sum;
+}
+
+export function clamp16(value: number): number {
+    const rounded = Math.round(value);
+    return rounded > 32767 ? 32767 : rounded < -32768 ? -32768 : rounded;
+}
@@ -0,0 +1,139 @@
+import { decodeG711, encodeG711, G711Codec } from './g711.js';
+import { bytesToInt16Array, int16ArrayToBuffer } from './pcm.js';
+import { Resampler, ResamplerQuality } from './resampler.js';
+
+export interface StreamingAudioConverterOptions {
+    quality?: ResamplerQuality;
+    codec?: G711Codec;
+    /** Rate the model takes caller audio at. Defaults to 16000, as Gemini Live expects. */
+    inputRate?: number;
+    /** Rate of the model's audio. Defaults to 24000. */
+    outputRate?: number;
+}
+
+/**
+ * Per-call counterpart of `AudioConverter`. Each direction owns its own resampler so filter
+ * history, fractional phase and odd trailing bytes carry over from one media chunk to the next.
+ *
+ * The binary methods write into scratch buffers owned by the converter: the arrays they return
+ * stay valid until the next call in the same direction. The base64 methods wrap them for callers
+ * that only deal in JSON payloads.
+ */
+export class StreamingAudioConverter {
+
+    readonly codec: G711Codec;
+    readonly inputRate: number;
+    readonly outputRate: number;
+
+    private readonly inbound: Resampler;
+    private readonly outbound: Resampler;
+    private outboundCarry?: number;
+
+    private inboundPcm = new Int16Array(0);
+    private outboundBytes = new Uint8Array(0);
+    private outboundG711 = new Uint8Array(0);
+
+    constructor(options: StreamingAudioConverterOptions = {}) {
+        this.codec = options.codec || 'mulaw';
+        this.inputRate = options.inputRate || 16000;
+        this.outputRate = options.outputRate || 24000;
+        this.inbound = new Resampler(8000, this.inputRate, options.quality);
+        this.outbound = new Resampler(this.outputRate, 8000, options.quality);
+    }
+
+    /** Decodes caller G.711 audio to 8 kHz PCM without resampling it. */
+    decodeG711(g711: Uint8Array): Int16Array {
+        if (this.inboundPcm.length < g711.length)
+            this.inboundPcm = new Int16Array(g711.length);
+        return decodeG711(g711, this.codec, this.inboundPcm.subarray(0, g711.length));
+    }
+
+    /** Upsamples 8 kHz caller PCM, e.g. from `decodeG711()`, to `inputRate`. */
+    upsamplePCM8k(pcm8k: Int16Array): Int16Array {
+        return this.inbound.push(pcm8k);
+    }
+
+    /** Decodes caller G.711 audio and resamples it to `inputRate`. */
+    convertG711ToPCM(g711: Uint8Array): Int16Array {
+        return this.upsamplePCM8k(this.decodeG711(g711));
+    }
+
+    /** Downsamples raw little-endian PCM bytes at `outputRate`, which may split a sample across chunks. */
+    downsamplePCMToPCM8k(pcmBytes: Uint8Array): Int16Array {
+        let bytes = pcmBytes;
+        if (this.outboundCarry !== undefined) {
+            bytes = this.scratchBytes(pcmBytes.length + 1);
+            bytes[0] = this.outboundCarry;
+            bytes.set(pcmBytes, 1);
+            this.outboundCarry = undefined;
+        }
+        if (bytes.length % 2 !== 0) {
+            this.outboundCarry = bytes[bytes.length - 1];
+            bytes = bytes.subarray(0, bytes.length - 1);
+        }
+
+        return this.outbound.push(bytesToInt16Array(bytes));
+    }
+
+    /** Drains the outbound filter delay at the end of a model turn as 8 kHz PCM. */
+    flushPCM8k(): Int16Array {
+        this.outboundCarry = undefined;
+        return this.outbound.flush();
+    }
+
+    /** Encodes 8 kHz agent PCM, e.g. from `downsamplePCMToPCM8k()`, with the call's codec. */
+    encodeG711(pcm8k: Int16Array): Uint8Array {
+        if (this.outboundG711.length < pcm8k.length)
+            this.outboundG711 = new Uint8Array(Math.max(pcm8k.length, this.outboundG711.length * 2));
+        return encodeG711(pcm8k, this.codec, this.outboundG711.subarray(0, pcm8k.length));
+    }
+
+    /** Resamples model PCM bytes at `outputRate` to 8 kHz and encodes them with the call's codec. */
+    convertPCMToG711(pcmBytes: Uint8Array): Uint8Array {
+        return this.encodeG711(this.downsamplePCMToPCM8k(pcmBytes));
+    }
+
+    /**
+     * Drains the outbound filter at the end of a model turn, returning the remaining G.711 audio
+     * (empty when nothing was pending).
+     */
+    flushG711(): Uint8Array {
+        return this.encodeG711(this.flushPCM8k());
+    }
+
+    convertBase64G711ToBase64PCM(base64: string): string {
+        const pcm = this.convertG711ToPCM(Buffer.from(base64, 'base64'));
+        return int16ArrayToBuffer(pcm).toString('base64');
+    }
+
+    convertBase64PCMToBase64G711(base64: string): string {
+        return this.toBase64(this.convertPCMToG711(Buffer.from(base64, 'base64')));
+    }
+
+    /** Base64 form of `flushG711()`. */
+    flush(): string {
+        return this.toBase64(this.flushG711());
+    }
+
+    /** Drops all buffered audio in both directions without emitting it. */
+    reset() {
+        this.inbound.reset();
+        this.resetOutbound();
+    }
+
+    /** Drops buffered agent audio only, e.g. when queued playback is cancelled by a barge-in. */
+    resetOutbound() {
+        this.outboundCarry = undefined;
+        this.outbound.reset();
+    }
+
+    private scratchBytes(length: number): Uint8Array {
+        if (this.outboundBytes.length < length)
+            this.outboundBytes = new Uint8Array(Math.max(length, this.outboundBytes.length * 2));
+        return this.outboundBytes.subarray(0, length);
+    }
+
+    private toBase64(bytes: Uint8Array): string {
+        return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+    }
+}
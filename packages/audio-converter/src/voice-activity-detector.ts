@@ -0,0 +1,160 @@
+export interface VoiceActivityDetectorOptions {
+    sampleRate?: number;
+    /** Analysis window length. Input of any length is buffered into windows of this size. */
+    frameMs?: number;
+    /** Frames quieter than this never count as speech. */
+    minSpeechDbfs?: number;
+    /** How far above the tracked noise floor a frame must be to count as speech. */
+    noiseMarginDb?: number;
+    /**
+     * Zero crossings per sample above which a frame is treated as noise (hiss, clicks) unless it
+     * is also `noiseMarginDb` louder than usual.
+     */
+    maxZeroCrossingRate?: number;
+    /** Consecutive speech needed before `onSpeechStart` fires. */
+    speechStartMs?: number;
+    /** Consecutive non-speech needed before `onSpeechEnd` fires. */
+    hangoverMs?: number;
+}
+
+export interface VoiceActivityFrame {
+    rms: number;
+    dbfs: number;
+    zeroCrossingRate: number;
+    noiseFloorDbfs: number;
+    /** Raw per-frame decision before start/hangover smoothing. */
+    isSpeech: boolean;
+    /** Smoothed state: true between `onSpeechStart` and `onSpeechEnd`. */
+    speaking: boolean;
+    /** Audio time since speech last ended, or since the stream started. Zero while speaking. */
+    silenceMs: number;
+}
+
+const DEFAULT_OPTIONS: Required<VoiceActivityDetectorOptions> = {
+    sampleRate: 8000,
+    frameMs: 20,
+    minSpeechDbfs: -50,
+    noiseMarginDb: 10,
+    maxZeroCrossingRate: 0.35,
+    speechStartMs: 60,
+    hangoverMs: 400
+};
+
+const SILENCE_DBFS = -96;
+
+/**
+ * Energy and zero-crossing voice activity detector for telephone audio. The noise floor adapts
+ * quickly downwards and slowly upwards, so steady line noise is learned within a second or two
+ * while a talker never raises it much.
+ */
+export class VoiceActivityDetector {
+
+    public onSpeechStart?: () => void;
+    public onSpeechEnd?: (durationMs: number) => void;
+    public onLevel?: (frame: VoiceActivityFrame) => void;
+    public speaking: boolean = false;
+
+    private readonly options: Required<VoiceActivityDetectorOptions>;
+    private readonly frame: Int16Array;
+    private frameFill = 0;
+
+    private noiseFloorDbfs = -70;
+    private speechRunMs = 0;
+    private silenceRunMs = 0;
+    private speechDurationMs = 0;
+    private silenceMs = 0;
+
+    constructor(options: VoiceActivityDetectorOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.frame = new Int16Array(Math.round((this.options.sampleRate * this.options.frameMs) / 1000));
+    }
+
+    /** Feeds PCM samples and returns the analysis of every window completed by them. */
+    process(samples: Int16Array): VoiceActivityFrame[] {
+        const frames: VoiceActivityFrame[] = [];
+        let offset = 0;
+        while (offset < samples.length) {
+            const count = Math.min(samples.length - offset, this.frame.length - this.frameFill);
+            this.frame.set(samples.subarray(offset, offset + count), this.frameFill);
+            this.frameFill += count;
+            offset += count;
+
+            if (this.frameFill === this.frame.length) {
+                this.frameFill = 0;
+                frames.push(this.analyze(this.frame));
+            }
+        }
+        return frames;
+    }
+
+    reset() {
+        this.frameFill = 0;
+        this.noiseFloorDbfs = -70;
+        this.speechRunMs = 0;
+        this.silenceRunMs = 0;
+        this.speechDurationMs = 0;
+        this.silenceMs = 0;
+        this.speaking = false;
+    }
+
+    private analyze(frame: Int16Array): VoiceActivityFrame {
+        const { frameMs, minSpeechDbfs, noiseMarginDb, maxZeroCrossingRate, speechStartMs, hangoverMs } = this.options;
+
+        let energy = 0;
+        let crossings = 0;
+        for (let i = 0; i < frame.length; i++) {
+            energy += frame[i] * frame[i];
+            if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0))
+                crossings++;
+        }
+
+        const rms = Math.sqrt(energy / frame.length);
+        const dbfs = rms > 0 ? Math.max(SILENCE_DBFS, 20 * Math.log10(rms / 32768)) : SILENCE_DBFS;
+        const zeroCrossingRate = crossings / frame.length;
+
+        const aboveFloor = dbfs - this.noiseFloorDbfs;
+        const isSpeech = dbfs > minSpeechDbfs && aboveFloor > noiseMarginDb &&
+            (zeroCrossingRate <= maxZeroCrossingRate || aboveFloor > 2 * noiseMarginDb);
+
+        if (!isSpeech) {
+            const rate = dbfs < this.noiseFloorDbfs ? 0.2 : 0.02;
+            this.noiseFloorDbfs += (dbfs - this.noiseFloorDbfs) * rate;
+        }
+
+        if (isSpeech) {
+            this.speechRunMs += frameMs;
+            this.silenceRunMs = 0;
+        } else {
+            this.silenceRunMs += frameMs;
+            this.speechRunMs = 0;
+        }
+
+        if (!this.speaking && this.speechRunMs >= speechStartMs) {
+            this.speaking = true;
+            this.speechDurationMs = this.speechRunMs;
+            this.silenceMs = 0;
+            this.onSpeechStart?.();
+        } else if (this.speaking) {
+            this.speechDurationMs += frameMs;
+            if (this.silenceRunMs >= hangoverMs) {
+                this.speaking = false;
+                this.silenceMs = this.silenceRunMs;
+                this.onSpeechEnd?.(this.speechDurationMs - this.silenceRunMs);
+            }
+        } else {
+            this.silenceMs += frameMs;
+        }
+
+        const result: VoiceActivityFrame = {
+            rms,
+            dbfs,
+            zeroCrossingRate,
+            noiseFloorDbfs: this.noiseFloorDbfs,
+            isSpeech,
+            speaking: this.speaking,
+            silenceMs: this.speaking ? 0 : this.silenceMs
+        };
+        this.onLevel?.(result);
+        return result;
+    }
+}
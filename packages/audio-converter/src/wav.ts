@@ -0,0 +1,125 @@
+import { decodeG711 } from './g711.js';
+import { bytesToInt16Array } from './pcm.js';
+
+export interface WavFormat {
+    sampleRate: number;
+    channels: number;
+}
+
+/** Wraps interleaved 16-bit PCM in a canonical 44-byte RIFF/WAVE header. */
+export function encodeWav(samples: Int16Array, format: WavFormat): Buffer {
+    const dataLength = samples.length * 2;
+    const blockAlign = format.channels * 2;
+    const wav = Buffer.alloc(44 + dataLength);
+
+    wav.write('RIFF', 0, 'ascii');
+    wav.writeUInt32LE(36 + dataLength, 4);
+    wav.write('WAVE', 8, 'ascii');
+    wav.write('fmt ', 12, 'ascii');
+    wav.writeUInt32LE(16, 16);
+    wav.writeUInt16LE(1, 20);
+    wav.writeUInt16LE(format.channels, 22);
+    wav.writeUInt32LE(format.sampleRate, 24);
+    wav.writeUInt32LE(format.sampleRate * blockAlign, 28);
+    wav.writeUInt16LE(blockAlign, 32);
+    wav.writeUInt16LE(16, 34);
+    wav.write('data', 36, 'ascii');
+    wav.writeUInt32LE(dataLength, 40);
+
+    for (let i = 0; i < samples.length; i++) {
+        wav.writeInt16LE(samples[i], 44 + i * 2);
+    }
+
+    return wav;
+}
+
+/** Interleaves mono tracks into one multi-channel buffer, padding shorter tracks with silence. */
+export function interleave(tracks: Int16Array[]): Int16Array {
+    const length = Math.max(0, ...tracks.map(track => track.length));
+    const output = new Int16Array(length * tracks.length);
+    tracks.forEach((track, channel) => {
+        for (let i = 0; i < track.length; i++) {
+            output[i * tracks.length + channel] = track[i];
+        }
+    });
+    return output;
+}
+
+export interface DecodedWav {
+    format: WavFormat;
+    /** Interleaved 16-bit PCM. */
+    samples: Int16Array;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_ALAW = 6;
+const WAVE_FORMAT_MULAW = 7;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+/** Reads a RIFF/WAVE file holding 8- or 16-bit PCM, μ-law or A-law audio. */
+export function decodeWav(data: Uint8Array): DecodedWav {
+    const wav = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE')
+        throw new Error('Not a RIFF/WAVE file');
+
+    let formatTag = 0;
+    let channels = 0;
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+    let body: Buffer | undefined;
+
+    for (let offset = 12; offset + 8 <= wav.length;) {
+        const id = wav.toString('ascii', offset, offset + 4);
+        const size = wav.readUInt32LE(offset + 4);
+        const start = offset + 8;
+        const end = Math.min(wav.length, start + size);
+
+        if (id === 'fmt ' && end - start >= 16) {
+            formatTag = wav.readUInt16LE(start);
+            channels = wav.readUInt16LE(start + 2);
+            sampleRate = wav.readUInt32LE(start + 4);
+            bitsPerSample = wav.readUInt16LE(start + 14);
+            if (formatTag === WAVE_FORMAT_EXTENSIBLE && end - start >= 26)
+                formatTag = wav.readUInt16LE(start + 24);
+        } else if (id === 'data') {
+            body = wav.subarray(start, end);
+        }
+
+        // Chunks are padded to an even length.
+        offset = start + size + (size % 2);
+    }
+
+    if (!formatTag || !body)
+        throw new Error('WAVE file is missing its fmt or data chunk');
+
+    const format = { sampleRate, channels };
+    if (formatTag === WAVE_FORMAT_MULAW || formatTag === WAVE_FORMAT_ALAW)
+        return { format, samples: decodeG711(body, formatTag === WAVE_FORMAT_MULAW ? 'mulaw' : 'alaw') };
+
+    if (formatTag === WAVE_FORMAT_PCM && bitsPerSample === 16)
+        return { format, samples: bytesToInt16Array(body.subarray(0, body.length - (body.length % 2))).slice() };
+
+    if (formatTag === WAVE_FORMAT_PCM && bitsPerSample === 8) {
+        const samples = new Int16Array(body.length);
+        for (let i = 0; i < body.length; i++)
+            samples[i] = (body[i] - 128) << 8;
+        return { format, samples };
+    }
+
+    throw new Error(`Unsupported WAVE encoding: format ${formatTag}, ${bitsPerSample} bits`);
+}
+
+/** Averages interleaved channels into one. */
+export function downmix(samples: Int16Array, channels: number): Int16Array {
+    if (channels <= 1)
+        return samples;
+
+    const output = new Int16Array(Math.floor(samples.length / channels));
+    for (let i = 0; i < output.length; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++)
+            sum += samples[i * channels + c];
+        output[i] = Math.round(sum / channels);
+    }
+    return output;
+}
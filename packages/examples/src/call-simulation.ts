@@ -0,0 +1,66 @@
+import { Tw2GemServer } from '@tw2gem/server';
+import { MockGeminiLiveServer } from '@tw2gem/gemini-live-client/testing';
+import { FakeTwilioClient } from '@tw2gem/twilio-server/testing';
+
+// A whole call offline: a fake Twilio stream talks to Tw2GemServer, which talks to a mock Gemini
+const callSimulation = async () => {
+    const gemini = new MockGeminiLiveServer();
+    await gemini.listen();
+
+    // One second of a 440 Hz tone stands in for the agent's voice
+    const agentVoice = new Int16Array(24000).map((_, i) => Math.round(8000 * Math.sin((2 * Math.PI * 440 * i) / 24000)));
+    gemini.script([
+        {
+            after: 'audio',
+            events: [
+                { inputTranscription: 'Hi, I need to check my order' },
+                { outputTranscription: 'Sure, let me look that up.' },
+                { audio: agentVoice },
+                { toolCall: [{ id: 'call-1', name: 'press_digits', args: { digits: '1' } }] }
+            ]
+        },
+        {
+            after: 'toolResponse',
+            events: [
+                { outputTranscription: ' Your order ships tomorrow.' },
+                { audio: agentVoice },
+                { turnComplete: true },
+                { usage: { promptTokenCount: 120, responseTokenCount: 80, responseTokensDetails: [{ modality: 'AUDIO', tokenCount: 50 }] } }
+            ]
+        }
+    ]);
+
+    const PORT = parseInt(process.env.PORT || '12002', 10);
+    const server = new Tw2GemServer({
+        serverOptions: { port: PORT },
+        geminiOptions: {
+            server: { url: gemini.url },
+            setup: { model: 'models/mock', responseModalities: ['AUDIO'] }
+        }
+    });
+    server.transcript.onSegment = (socket, segment) => {
+        if (segment.final)
+            console.log(`${segment.speaker}: ${segment.text}`);
+    };
+
+    server.usage.onUsage = (socket, usage) => console.log(`Tokens so far: ${usage.totalTokens}`);
+
+    const twilio = new FakeTwilioClient({ customParameters: { agent_id: 'agent-1', user_id: 'user-1' } });
+    await twilio.connect(`ws://127.0.0.1:${PORT}`);
+    server.geminiLive.onReady = () => twilio.sendSilence(500);
+
+    const toolResponse = await gemini.waitFor(request => !!request.toolResponse);
+    console.log('Tool response:', JSON.stringify(toolResponse.toolResponse));
+
+    await twilio.waitFor(() => twilio.marks.some(mark => mark.endsWith('-end')), 10000);
+    console.log(`Twilio played ${twilio.receivedAudio.length / 8} ms of agent audio`);
+
+    twilio.hangUp();
+    server.close();
+    await gemini.close();
+};
+
+callSimulation().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
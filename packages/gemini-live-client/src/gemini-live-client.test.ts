@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeminiLiveClient } from './gemini-live-client.js';
+import { GeminiConnectionState, GeminiLiveClientOptions } from './gemini-live.dto.js';
+import { MockGeminiLiveServer } from './mock-gemini-live-server.js';
+
+const SETUP = { model: 'models/gemini-2.0-flash-live-001', responseModalities: ['AUDIO' as const] };
+
+function waitUntil(condition: () => boolean, timeoutMs: number = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    return new Promise((resolve, reject) => {
+        const check = () => {
+            if (condition())
+                return resolve();
+            if (Date.now() > deadline)
+                return reject(new Error(`Condition not met within ${timeoutMs}ms`));
+            setTimeout(check, 5);
+        };
+        check();
+    });
+}
+
+describe('GeminiLiveClient', () => {
+    let server: MockGeminiLiveServer;
+    let client: GeminiLiveClient | undefined;
+    let states: GeminiConnectionState[];
+
+    beforeEach(async () => {
+        server = new MockGeminiLiveServer();
+        await server.listen();
+        states = [];
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        client?.close();
+        client = undefined;
+        await server.close();
+    });
+
+    function connect(options: Partial<GeminiLiveClientOptions> = {}): GeminiLiveClient {
+        client = new GeminiLiveClient({
+            server: { url: server.url, apiKey: 'test-key' },
+            setup: { ...SETUP },
+            heartbeatIntervalMs: 0,
+            ...options
+        });
+        client.onStateChange = (state) => states.push(state);
+        return client;
+    }
+
+    const texts = (session = server.sessions[server.sessions.length - 1]) =>
+        (session?.received || []).flatMap(request => request.realtimeInput?.text !== undefined ? [request.realtimeInput.text] : []);
+
+    describe('queue', () => {
+        it('holds messages sent while connecting and replays them in order once ready', async () => {
+            const gemini = connect();
+            gemini.sendText('one');
+            gemini.sendText('two');
+            expect(gemini.queuedMessages).toBe(2);
+
+            await waitUntil(() => texts().length === 2);
+            expect(gemini.isReady).toBe(true);
+            expect(gemini.queuedMessages).toBe(0);
+            expect(server.sessions[0].received[0].setup).toBeDefined();
+            expect(texts()).toEqual(['one', 'two']);
+        });
+
+        it('drops the oldest messages beyond maxQueuedMessages', async () => {
+            const gemini = connect({ maxQueuedMessages: 2 });
+            ['one', 'two', 'three', 'four'].forEach(text => gemini.sendText(text));
+            expect(gemini.droppedMessages).toBe(2);
+
+            await waitUntil(() => texts().length === 2);
+            expect(texts()).toEqual(['three', 'four']);
+        });
+
+        it('sends straight away when ready and drops messages once closed', async () => {
+            const gemini = connect();
+            await waitUntil(() => gemini.isReady);
+
+            gemini.sendText('ready');
+            await server.waitFor(request => request.realtimeInput?.text === 'ready');
+
+            gemini.close();
+            gemini.sendText('closed');
+            expect(gemini.queuedMessages).toBe(0);
+        });
+    });
+
+    describe('reconnect', () => {
+        it('resumes a dropped session with the latest handle and replays what was sent meanwhile', async () => {
+            const gemini = connect({ reconnect: { initialDelayMs: 20 } });
+            const resumed = vi.fn();
+            gemini.onResumed = resumed;
+            await waitUntil(() => gemini.isReady);
+
+            server.sessions[0].send({ sessionResumptionUpdate: { newHandle: 'handle-1', resumable: true } });
+            await waitUntil(() => gemini.resumptionHandle === 'handle-1');
+            server.sessions[0].close(1011, 'Internal error');
+            await waitUntil(() => gemini.isResuming);
+            gemini.sendText('while reconnecting');
+
+            await waitUntil(() => resumed.mock.calls.length === 1);
+            expect(resumed).toHaveBeenCalledWith(true);
+            expect(server.sessions).toHaveLength(2);
+            expect(server.sessions[1].setup?.sessionResumption).toEqual({ handle: 'handle-1' });
+            await waitUntil(() => texts(server.sessions[1]).length === 1);
+            expect(texts(server.sessions[1])).toEqual(['while reconnecting']);
+            expect(states).toEqual(['ready', 'reconnecting', 'ready']);
+        });
+
+        it('ignores handles the server marks as not resumable', async () => {
+            const gemini = connect();
+            await waitUntil(() => gemini.isReady);
+
+            server.sessions[0].send({ sessionResumptionUpdate: { newHandle: 'handle-1', resumable: false } });
+            server.sessions[0].send({ sessionResumptionUpdate: { newHandle: 'handle-2', resumable: true } });
+            await waitUntil(() => gemini.resumptionHandle !== undefined);
+            expect(gemini.resumptionHandle).toBe('handle-2');
+        });
+
+        it('moves to a new connection on goAway', async () => {
+            const gemini = connect();
+            const goAway = vi.fn();
+            gemini.onGoAway = goAway;
+            await waitUntil(() => gemini.isReady);
+
+            server.sessions[0].send({ sessionResumptionUpdate: { newHandle: 'handle-1', resumable: true } });
+            server.sessions[0].send({ goAway: { timeLeft: '9.5s' } });
+
+            await waitUntil(() => server.sessions.length === 2 && gemini.isReady);
+            expect(goAway).toHaveBeenCalledWith(9500);
+            expect(server.sessions[1].setup?.sessionResumption).toEqual({ handle: 'handle-1' });
+        });
+
+        it('drops a pending goAway when the connection is lost before it fires', async () => {
+            const gemini = connect({ reconnect: { initialDelayMs: 20 } });
+            await waitUntil(() => gemini.isReady);
+
+            // Mid-turn, the swap waits for the turn to end or for the goAway deadline
+            server.sessions[0].send({ sessionResumptionUpdate: { newHandle: 'handle-1', resumable: true } });
+            server.sessions[0].send({ serverContent: { modelTurn: { parts: [{ text: 'Let me check' }] } } });
+            server.sessions[0].send({ goAway: { timeLeft: '1.2s' } });
+            await waitUntil(() => gemini.resumptionHandle === 'handle-1');
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            server.sessions[0].close(1011, 'Internal error');
+            await waitUntil(() => server.sessions.length === 2 && gemini.isReady);
+
+            // Past the old connection's deadline, the new session is still the one in use
+            await new Promise(resolve => setTimeout(resolve, 400));
+            expect(server.sessions).toHaveLength(2);
+            expect(gemini.isReady).toBe(true);
+            expect(states).toEqual(['ready', 'reconnecting', 'ready']);
+        });
+
+        it('backs off exponentially up to maxDelayMs and closes after maxAttempts', async () => {
+            vi.spyOn(Math, 'random').mockReturnValue(0.5);
+            const gemini = connect({ reconnect: { initialDelayMs: 20, maxDelayMs: 50, maxAttempts: 3 } });
+            const closed = vi.fn();
+            gemini.onClose = closed;
+            await waitUntil(() => gemini.isReady);
+
+            const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+            gemini.sendText('never delivered');
+            await server.close();
+
+            await waitUntil(() => closed.mock.calls.length === 1);
+            const delays = setTimeoutSpy.mock.calls.map(([, delay]) => delay).filter(delay => delay === 20 || delay === 40 || delay === 50);
+            expect(delays).toEqual([20, 40, 50]);
+            expect(gemini.state).toBe('closed');
+            expect(gemini.queuedMessages).toBe(0);
+            expect(states).toEqual(['ready', 'reconnecting', 'closed']);
+        });
+
+        it('does not retry after a policy close', async () => {
+            const gemini = connect({ reconnect: { initialDelayMs: 20 } });
+            const closed = vi.fn();
+            gemini.onClose = closed;
+            await waitUntil(() => gemini.isReady);
+
+            server.sessions[0].close(1008, 'API key not valid');
+            await waitUntil(() => closed.mock.calls.length === 1);
+            expect(closed.mock.calls[0][0].code).toBe(1008);
+            expect(gemini.state).toBe('closed');
+            expect(server.sessions).toHaveLength(1);
+        });
+
+        it('closes instead of reconnecting when reconnect is off', async () => {
+            const gemini = connect({ reconnect: false });
+            const closed = vi.fn();
+            gemini.onClose = closed;
+            await waitUntil(() => gemini.isReady);
+
+            server.sessions[0].close(1011);
+            await waitUntil(() => closed.mock.calls.length === 1);
+            expect(gemini.state).toBe('closed');
+        });
+    });
+});
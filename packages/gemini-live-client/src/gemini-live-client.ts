@@ -1,20 +1,51 @@
-import { BidiGenerateContentRealtimeInput, BidiGenerateContentServerContent, BidiGenerateContentServerMessage, BidiRequest, GeminiLiveClientOptions } from './gemini-live.dto.js';
+import { BidiGenerateContentClientContent, BidiGenerateContentRealtimeInput, BidiGenerateContentServerContent, BidiGenerateContentToolCall, BidiGenerateContentToolCallCancellation, BidiRequest, FunctionResponse, GeminiConnectionState, GeminiLiveClientOptions, GoAway, SessionResumptionUpdate, UsageMetadata } from './gemini-live.dto.js';
+import { parseServerMessage } from './gemini-live.parser.js';
 import { CloseEvent, ErrorEvent, MessageEvent, WebSocket } from 'ws';
 
 export class GeminiLiveClient {
 
     private static readonly DEFAULT_GEMINI_BIDI_SERVER = 'wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent';
+    private static readonly GO_AWAY_MARGIN_MS = 1000;
+    private static readonly DEFAULT_HEARTBEAT_INTERVAL_MS = 15000;
+    private static readonly DEFAULT_MAX_QUEUED_MESSAGES = 500;
+    // Protocol and policy errors (bad key, bad setup) fail the same way on every retry
+    private static readonly FATAL_CLOSE_CODES = [1002, 1003, 1007, 1008];
 
     private socket!: WebSocket;
-    public isReady: boolean = false;
+    private connectionState: GeminiConnectionState = 'connecting';
     private usingFallback: boolean = false;
-    private connectionAttempts: number = 0;
-    private maxRetries: number = 2;
+    private wasReady: boolean = false;
+    private reconnectAttempts: number = 0;
+    private reconnectTimer?: NodeJS.Timeout;
+    private heartbeatTimer?: NodeJS.Timeout;
+    private awaitingPong: boolean = false;
+    private lastError?: ErrorEvent;
+    private queue: string[] = [];
+    private dropped: number = 0;
+    private handle?: string;
+    private generating: boolean = false;
+    private pendingGoAway: boolean = false;
+    private goAwayTimer?: NodeJS.Timeout;
 
     public onReady?: () => void;
     public onError?: (event: ErrorEvent) => void;
     public onClose?: (event: CloseEvent) => void;
+    public onStateChange?: (state: GeminiConnectionState, previous: GeminiConnectionState) => void;
     public onServerContent?: (serverContent: BidiGenerateContentServerContent) => void;
+    /** The model wants functions run; answer with `sendToolResponse` using each call's `id`. */
+    public onToolCall?: (toolCall: BidiGenerateContentToolCall) => void;
+    public onToolCallCancellation?: (cancellation: BidiGenerateContentToolCallCancellation) => void;
+    public onUsageMetadata?: (usage: UsageMetadata) => void;
+    /** A message from Gemini could not be parsed and was dropped. */
+    public onProtocolError?: (error: string, raw: string) => void;
+    /** The server will end this connection in `timeLeftMs`; the client resumes on a new one if it can. */
+    public onGoAway?: (timeLeftMs: number) => void;
+    public onResumptionUpdate?: (update: SessionResumptionUpdate) => void;
+    /**
+     * A new connection is ready after a `goAway` or a dropped connection and queued messages have
+     * been replayed. `resumed` is false when there was no resumption handle and the session started over.
+     */
+    public onResumed?: (resumed: boolean) => void;
 
     constructor(
         private options: GeminiLiveClientOptions
@@ -22,75 +53,234 @@ export class GeminiLiveClient {
         this.connectWithModel();
     }
 
+    get state(): GeminiConnectionState {
+        return this.connectionState;
+    }
+
+    get isReady(): boolean {
+        return this.connectionState === 'ready';
+    }
+
+    /** Switching to a new connection; messages sent meanwhile are queued until `onResumed`. */
+    get isResuming(): boolean {
+        return this.connectionState === 'reconnecting';
+    }
+
+    /** Latest handle the session can be resumed with, if the server has sent one. */
+    get resumptionHandle(): string | undefined {
+        return this.handle;
+    }
+
+    get queuedMessages(): number {
+        return this.queue.length;
+    }
+
+    /** Messages dropped because the queue was full while disconnected. */
+    get droppedMessages(): number {
+        return this.dropped;
+    }
+
     private connectWithModel() {
+        this.resetTurnState();
         const server = this.options.server;
         const baseUrl = server?.url || GeminiLiveClient.DEFAULT_GEMINI_BIDI_SERVER;
         const queryParams = server?.apiKey ? `key=${server.apiKey}` : '';
 
         // Use the correct WebSocket URL format
         const url = `${baseUrl}?${queryParams}`;
-        this.socket = new WebSocket(url);
+        const socket = new WebSocket(url);
+        this.socket = socket;
 
-        this.socket.onopen = this.sendSetup.bind(this);
-        this.socket.onmessage = this.handlerMessage.bind(this);
+        socket.onopen = () => {
+            this.startHeartbeat();
+            this.sendSetup();
+        };
+        socket.onmessage = this.handlerMessage.bind(this);
+        socket.on('pong', () => this.awaitingPong = false);
 
-        this.socket.onerror = (event: ErrorEvent) => {
-            this.isReady = false;
-            this.handleConnectionError(event);
+        socket.onerror = (event: ErrorEvent) => {
+            this.lastError = event;
         };
 
-        this.socket.onclose = (event: CloseEvent) => {
-            this.isReady = false;
-            this.onClose?.(event);
+        socket.onclose = (event: CloseEvent) => {
+            this.stopHeartbeat();
+            if (this.connectionState === 'closed')
+                return this.onClose?.(event);
+            this.handleConnectionLost(event);
         };
     }
 
-    private handleConnectionError(event: ErrorEvent) {
-        this.connectionAttempts++;
-        
-        // Try fallback model if primary fails and we have a fallback
-        if (!this.usingFallback && this.options.fallbackModel && this.connectionAttempts <= this.maxRetries) {
+    private handleConnectionLost(event: CloseEvent) {
+        // A goAway of the lost connection must not tear down the one that replaces it
+        this.resetTurnState();
+        const reconnect = this.options.reconnect === false ? undefined : this.options.reconnect || {};
+        const fatal = GeminiLiveClient.FATAL_CLOSE_CODES.includes(event.code);
+
+        // A model that never got a session going is swapped for the fallback once
+        if (!this.wasReady && !this.usingFallback && this.options.fallbackModel) {
             console.log(`Primary model failed, switching to fallback: ${this.options.fallbackModel}`);
             this.usingFallback = true;
             this.options.setup.model = this.options.fallbackModel;
-            
-            // Close current connection and retry with fallback
-            if (this.socket) {
-                this.socket.close();
-            }
-            
-            setTimeout(() => {
-                this.connectWithModel();
-            }, 1000);
-        } else {
-            // All attempts failed, call error handler
-            this.onError?.(event);
+            return this.scheduleReconnect(0);
+        }
+
+        if (!reconnect || fatal || this.reconnectAttempts >= (reconnect.maxAttempts ?? 5)) {
+            this.setState('closed');
+            this.queue = [];
+            if (this.lastError)
+                this.onError?.(this.lastError);
+            return this.onClose?.(event);
         }
+
+        const initialDelayMs = reconnect.initialDelayMs ?? 500;
+        const delayMs = Math.min(reconnect.maxDelayMs ?? 10000, initialDelayMs * 2 ** this.reconnectAttempts);
+        // Jitter keeps many calls that dropped together from reconnecting in lockstep
+        this.scheduleReconnect(delayMs * (0.8 + Math.random() * 0.4));
+    }
+
+    private scheduleReconnect(delayMs: number) {
+        this.reconnectAttempts++;
+        this.setState(this.wasReady ? 'reconnecting' : 'connecting');
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.connectWithModel();
+        }, delayMs);
+    }
+
+    private setState(state: GeminiConnectionState) {
+        const previous = this.connectionState;
+        if (previous === state)
+            return;
+        this.connectionState = state;
+        this.onStateChange?.(state, previous);
+    }
+
+    // A connection that misses a pong for a whole interval is assumed dead and dropped
+    private startHeartbeat() {
+        const intervalMs = this.options.heartbeatIntervalMs ?? GeminiLiveClient.DEFAULT_HEARTBEAT_INTERVAL_MS;
+        if (!intervalMs)
+            return;
+
+        this.awaitingPong = false;
+        this.heartbeatTimer = setInterval(() => {
+            if (this.awaitingPong)
+                return this.socket.terminate();
+            this.awaitingPong = true;
+            this.socket.ping();
+        }, intervalMs);
+    }
+
+    private stopHeartbeat() {
+        clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = undefined;
     }
 
     protected sendSetup() {
-        const jsonPayload = JSON.stringify({ setup: this.options.setup });
+        const setup = this.options.sessionResumption === false
+            ? this.options.setup
+            : { ...this.options.setup, sessionResumption: { handle: this.handle } };
+        const jsonPayload = JSON.stringify({ setup });
         this.socket.send(jsonPayload);
     }
 
     protected async handlerMessage(event: MessageEvent) {
-        const isBuffer = event.data instanceof Buffer;
-        if (!isBuffer)
-            return; 
-        
-        const blob = event.data;
-        const text = blob.toString();
-        const obj: BidiGenerateContentServerMessage = JSON.parse(text);
+        const parsed = parseServerMessage(event.data);
+        if (!parsed.ok)
+            return this.onProtocolError?.(parsed.error, event.data.toString());
+
+        const obj = parsed.message;
         if (obj.setupComplete) {
-            this.isReady = true;
+            const reconnected = this.wasReady;
+            this.wasReady = true;
+            this.reconnectAttempts = 0;
+            this.lastError = undefined;
+            this.setState('ready');
+            this.flushQueue();
+            if (reconnected)
+                return this.onResumed?.(!!this.handle && this.options.sessionResumption !== false);
             return this.onReady?.();
         }
 
+        if (obj.sessionResumptionUpdate) {
+            if (obj.sessionResumptionUpdate.resumable && obj.sessionResumptionUpdate.newHandle)
+                this.handle = obj.sessionResumptionUpdate.newHandle;
+            this.onResumptionUpdate?.(obj.sessionResumptionUpdate);
+        }
+
+        if (obj.goAway) {
+            this.handleGoAway(obj.goAway);
+        }
+
         if (obj.serverContent) {
-            return this.onServerContent?.(obj.serverContent);
+            if (obj.serverContent.modelTurn)
+                this.generating = true;
+            if (obj.serverContent.turnComplete || obj.serverContent.interrupted)
+                this.generating = false;
+            this.onServerContent?.(obj.serverContent);
+        }
+
+        if (obj.toolCall) {
+            this.onToolCall?.(obj.toolCall);
+        }
+
+        if (obj.toolCallCancellation) {
+            this.onToolCallCancellation?.(obj.toolCallCancellation);
+        }
+
+        if (obj.usageMetadata) {
+            this.onUsageMetadata?.(obj.usageMetadata);
         }
+
+        if (this.pendingGoAway && !this.generating)
+            this.resume();
     };
 
+    // Hold the swap until the model finishes its turn so no reply is cut off, but never past the deadline
+    private handleGoAway(goAway: GoAway) {
+        const timeLeftMs = Math.round(parseFloat(goAway.timeLeft || '0') * 1000) || 0;
+        this.onGoAway?.(timeLeftMs);
+        if (this.options.sessionResumption === false || !this.handle || this.pendingGoAway)
+            return;
+
+        this.pendingGoAway = true;
+        if (!this.generating)
+            return this.resume();
+        this.goAwayTimer = setTimeout(() => this.resume(), Math.max(0, timeLeftMs - GeminiLiveClient.GO_AWAY_MARGIN_MS));
+    }
+
+    private resume() {
+        this.resetTurnState();
+        this.setState('reconnecting');
+        this.retireSocket();
+        this.connectWithModel();
+    }
+
+    // Turn and goAway tracking belong to one connection
+    private resetTurnState() {
+        clearTimeout(this.goAwayTimer);
+        this.goAwayTimer = undefined;
+        this.pendingGoAway = false;
+        this.generating = false;
+    }
+
+    // The old connection is dropped quietly so its close doesn't count as a lost connection
+    private retireSocket() {
+        this.stopHeartbeat();
+        const previous = this.socket;
+        previous.onopen = () => { };
+        previous.onmessage = () => { };
+        previous.onerror = () => { };
+        previous.onclose = () => { };
+        previous.removeAllListeners('pong');
+        previous.close();
+    }
+
+    private flushQueue() {
+        const queued = this.queue;
+        this.queue = [];
+        queued.forEach(jsonPayload => this.socket.send(jsonPayload));
+    }
+
     public sendText(text: string) {
         const realtimeInput: BidiGenerateContentRealtimeInput = { text };
         this.send({ realtimeInput });
@@ -108,33 +298,56 @@ export class GeminiLiveClient {
         this.send({ realtimeInput: { audioStreamEnd: true } });
     }
 
-    public sendClientContent(content: { turns: any, turnComplete?: boolean }) {
+    public sendClientContent(content: BidiGenerateContentClientContent) {
         this.send({ clientContent: content });
     }
 
-    public sendFunctionResponse(functionName: string, response: any) {
-        const functionResponse = {
-            name: functionName,
-            response: response
-        };
-        
-        this.sendClientContent({
-            turns: [{
-                role: 'function',
-                parts: [{ functionResponse }]
-            }],
-            turnComplete: true
-        });
+    /** Answers one function call; pass the call's `id` from `onToolCall` so Gemini can match it. */
+    public sendFunctionResponse(functionName: string, response: any, id?: string) {
+        this.sendToolResponse([{ id, name: functionName, response }]);
+    }
+
+    public sendToolResponse(functionResponses: FunctionResponse[]) {
+        this.send({ toolResponse: { functionResponses } });
     }
 
+    /** Caller speech boundaries, for when automatic activity detection is disabled. */
+    public sendActivityStart() {
+        this.send({ realtimeInput: { activityStart: {} } });
+    }
+
+    public sendActivityEnd() {
+        this.send({ realtimeInput: { activityEnd: {} } });
+    }
+
+    // Sent straight away when ready, queued while (re)connecting and dropped once closed
     protected send(request: BidiRequest) {
-        if (!this.isReady)
+        if (this.connectionState === 'closed')
             return;
+
         const jsonPayload = JSON.stringify(request);
-        this.socket.send(jsonPayload);
+        if (this.connectionState === 'ready')
+            return this.socket.send(jsonPayload);
+
+        this.queue.push(jsonPayload);
+        const maxQueued = this.options.maxQueuedMessages ?? GeminiLiveClient.DEFAULT_MAX_QUEUED_MESSAGES;
+        while (this.queue.length > maxQueued) {
+            this.queue.shift();
+            this.dropped++;
+        }
     }
 
     public close() {
+        const waitingToReconnect = !!this.reconnectTimer;
+        this.resetTurnState();
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = undefined;
+        this.stopHeartbeat();
+        this.queue = [];
+        this.setState('closed');
+        // Between attempts there is no socket left to report the close
+        if (waitingToReconnect)
+            return this.onClose?.({ type: 'close', code: 1000, reason: 'Client closed', wasClean: true, target: this.socket } as CloseEvent);
         this.socket.close();
     }
 }
\ No newline at end of file
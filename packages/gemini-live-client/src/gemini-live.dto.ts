@@ -7,14 +7,21 @@ export interface GeminiContentPart {
     thought?: boolean;
     text?: string;
     inlineData?: GeminiBlob;
-    functionCall?: {
-        name: string;
-        args: Record<string, any>;
-    };
-    functionResponse?: {
-        name: string;
-        response: any;
-    };
+    functionCall?: FunctionCall;
+    functionResponse?: FunctionResponse;
+}
+
+export interface FunctionCall {
+    id?: string;
+    name: string;
+    args: Record<string, any>;
+}
+
+export interface FunctionResponse {
+    /** The `id` of the function call this answers. */
+    id?: string;
+    name: string;
+    response: any;
 }
 
 export interface GeminiContent {
@@ -25,10 +32,17 @@ export interface GeminiContent {
 export interface BidiRequest {
     setup?: BidiGenerateContentSetup;
     realtimeInput?: BidiGenerateContentRealtimeInput;
-    clientContent?: {
-        turns: any;
-        turnComplete?: boolean;
-    };
+    clientContent?: BidiGenerateContentClientContent;
+    toolResponse?: BidiGenerateContentToolResponse;
+}
+
+export interface BidiGenerateContentClientContent {
+    turns?: GeminiContent[];
+    turnComplete?: boolean;
+}
+
+export interface BidiGenerateContentToolResponse {
+    functionResponses: FunctionResponse[];
 }
 
 export interface GeminiLiveClientOptions {
@@ -36,8 +50,27 @@ export interface GeminiLiveClientOptions {
     setup: BidiGenerateContentSetup;
     primaryModel?: string;
     fallbackModel?: string;
+    /** Ask for session resumption handles and reconnect with the latest one when the server sends `goAway`. Defaults to true. */
+    sessionResumption?: boolean;
+    /** Reconnection after the connection drops; `false` closes the client instead. */
+    reconnect?: GeminiReconnectOptions | false;
+    /** Ping interval used to detect dead connections; a missing pong by the next ping drops the connection. Defaults to 15000, 0 disables. */
+    heartbeatIntervalMs?: number;
+    /** Messages held while not connected, replayed once ready; the oldest are dropped beyond this. Defaults to 500. */
+    maxQueuedMessages?: number;
 }
 
+export interface GeminiReconnectOptions {
+    /** Consecutive failed attempts before giving up. Defaults to 5. */
+    maxAttempts?: number;
+    /** Delay before the first attempt, doubled for each one after. Defaults to 500. */
+    initialDelayMs?: number;
+    /** Defaults to 10000. */
+    maxDelayMs?: number;
+}
+
+export type GeminiConnectionState = 'connecting' | 'ready' | 'reconnecting' | 'closed';
+
 export interface GeminiServer {
     url?: string;
     apiKey?: string;
@@ -83,6 +116,15 @@ export interface BidiGenerateContentSetup {
     proactivity?: {
         proactiveAudio?: boolean
     }
+    sessionResumption?: {
+        handle?: string
+    }
+    contextWindowCompression?: {
+        triggerTokens?: number
+        slidingWindow?: {
+            targetTokens?: number
+        }
+    }
 }
 
 export interface FunctionDeclaration {
@@ -101,8 +143,9 @@ export interface BidiGenerateContentRealtimeInput {
     mediaChunks?: GeminiBlob[];
     audio?: GeminiBlob;
     video?: GeminiBlob;
-    // activityStart?: ActivityStart;
-    // activityEnd?: ActivityEnd;
+    /** Marks the start of caller speech when automatic activity detection is disabled. */
+    activityStart?: {};
+    activityEnd?: {};
     audioStreamEnd?: boolean;
     text?: string;
 }
@@ -118,15 +161,56 @@ export interface BidiGenerateContentServerContent {
     outputTranscription?: {
         text: string;
     };
-    usageMetadata?: {
-        totalTokenCount: number;
-        responseTokensDetails: any[];
-    };
+    waitingForInput?: boolean;
+    turnCompleteReason?: string;
+    groundingMetadata?: Record<string, any>;
+}
+
+export interface ModalityTokenCount {
+    modality: 'TEXT' | 'IMAGE' | 'VIDEO' | 'AUDIO' | 'DOCUMENT' | string;
+    tokenCount: number;
+}
+
+export interface UsageMetadata {
+    promptTokenCount?: number;
+    cachedContentTokenCount?: number;
+    responseTokenCount?: number;
+    toolUsePromptTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+    promptTokensDetails?: ModalityTokenCount[];
+    cacheTokensDetails?: ModalityTokenCount[];
+    responseTokensDetails?: ModalityTokenCount[];
+    toolUsePromptTokensDetails?: ModalityTokenCount[];
+}
+
+export interface BidiGenerateContentToolCall {
+    functionCalls: FunctionCall[];
+}
+
+export interface BidiGenerateContentToolCallCancellation {
+    /** Ids of tool calls the model no longer needs, e.g. after the caller interrupted. */
+    ids: string[];
 }
 
 export interface BidiGenerateContentSetupComplete { }
 
+export interface SessionResumptionUpdate {
+    newHandle?: string;
+    resumable?: boolean;
+}
+
+export interface GoAway {
+    /** Protobuf duration, e.g. "10s". */
+    timeLeft?: string;
+}
+
 export interface BidiGenerateContentServerMessage {
     setupComplete?: BidiGenerateContentSetupComplete;
     serverContent?: BidiGenerateContentServerContent;
+    sessionResumptionUpdate?: SessionResumptionUpdate;
+    goAway?: GoAway;
+    toolCall?: BidiGenerateContentToolCall;
+    toolCallCancellation?: BidiGenerateContentToolCallCancellation;
+    usageMetadata?: UsageMetadata;
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { BidiGenerateContentServerMessage } from './gemini-live.dto.js';
+import { parseServerMessage } from './gemini-live.parser.js';
+
+function fixture(name: string): string[] {
+    return readFileSync(new URL(`../fixtures/${name}`, import.meta.url), 'utf8').split('\n').filter(line => line.trim());
+}
+
+function parseAll(lines: string[]): BidiGenerateContentServerMessage[] {
+    return lines.map(line => {
+        const parsed = parseServerMessage(Buffer.from(line));
+        if (!parsed.ok)
+            throw new Error(`Expected ${line} to parse, got ${parsed.error}`);
+        return parsed.message;
+    });
+}
+
+describe('parseServerMessage', () => {
+    const session = fixture('session.jsonl');
+    const messages = parseAll(session);
+
+    it('parses every message of a recorded session', () => {
+        expect(messages).toEqual(session.map(line => JSON.parse(line)));
+    });
+
+    it('reads the frame types the socket delivers', () => {
+        const line = session[5];
+        const expected = JSON.parse(line);
+        const buffer = Buffer.from(line);
+        const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+
+        expect(parseServerMessage(line)).toEqual({ ok: true, message: expected });
+        expect(parseServerMessage(arrayBuffer)).toEqual({ ok: true, message: expected });
+        expect(parseServerMessage([buffer.subarray(0, 20), buffer.subarray(20)])).toEqual({ ok: true, message: expected });
+    });
+
+    it('keeps tool calls with their ids and arguments', () => {
+        const { toolCall } = messages.find(message => message.toolCall)!;
+
+        expect(toolCall!.functionCalls).toEqual([
+            { id: 'function-call-13513484810411428123', name: 'lookup_order', args: { order_id: 'A-1042' } },
+            { id: 'function-call-2206171853904123977', name: 'lookup_customer', args: {} }
+        ]);
+    });
+
+    it('keeps tool call cancellations', () => {
+        const { toolCallCancellation } = messages.find(message => message.toolCallCancellation)!;
+        expect(toolCallCancellation!.ids).toEqual(['function-call-2206171853904123977']);
+    });
+
+    it('keeps session resumption updates, resumable or not', () => {
+        expect(messages.filter(message => message.sessionResumptionUpdate).map(message => message.sessionResumptionUpdate)).toEqual([
+            { newHandle: 'CiQ2ZDdlYjU0Zi1hMzE0LTQ4ZjgtOWM1Mi0wNTc0YjkxZjFjNmM', resumable: true },
+            { resumable: false }
+        ]);
+    });
+
+    it('keeps goAway with its protobuf duration', () => {
+        expect(messages[messages.length - 1]).toEqual({ goAway: { timeLeft: '9.5s' } });
+    });
+
+    it('keeps top-level usage next to the server content it arrives with', () => {
+        const last = messages.find(message => message.usageMetadata)!;
+        expect(last.serverContent).toEqual({ turnComplete: true });
+        expect(last.usageMetadata!.totalTokenCount).toBe(508);
+        expect(last.usageMetadata!.promptTokensDetails).toHaveLength(2);
+    });
+
+    it.each([
+        [0, /JSON/],
+        [1, /^Message is not an object$/],
+        [2, /^Message is not an object$/],
+        [3, /^goAway must be an object$/],
+        [4, /^serverContent must be an object$/],
+        [5, /^toolCall.functionCalls must be an array$/],
+        [6, /^toolCall.functionCalls must be an array$/],
+        [7, /^toolCallCancellation.ids must be an array$/],
+        [8, /^sessionResumptionUpdate must be an object$/]
+    ])('rejects malformed message %i', (line, error) => {
+        const parsed = parseServerMessage(Buffer.from(fixture('malformed.jsonl')[line]));
+
+        expect(parsed.ok).toBe(false);
+        expect(!parsed.ok && parsed.error).toMatch(error);
+    });
+});
@@ -0,0 +1,47 @@
+import { BidiGenerateContentServerMessage } from './gemini-live.dto.js';
+
+export type GeminiParseResult =
+    | { ok: true, message: BidiGenerateContentServerMessage }
+    | { ok: false, error: string };
+
+const MESSAGE_FIELDS: (keyof BidiGenerateContentServerMessage)[] = [
+    'setupComplete', 'serverContent', 'toolCall', 'toolCallCancellation', 'goAway', 'sessionResumptionUpdate', 'usageMetadata'
+];
+
+/**
+ * Parses one message from the BidiGenerateContent socket. Gemini sends JSON in binary frames; the
+ * message must be an object whose known fields are objects, and `toolCall` and
+ * `toolCallCancellation` must carry the arrays the client dispatches on.
+ */
+export function parseServerMessage(data: Buffer | ArrayBuffer | Buffer[] | string): GeminiParseResult {
+    const text = typeof data === 'string'
+        ? data
+        : Array.isArray(data) ? Buffer.concat(data).toString() : Buffer.from(data as ArrayBuffer).toString();
+
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (error) {
+        return { ok: false, error: error instanceof Error ? error.message : 'Invalid JSON' };
+    }
+
+    if (!isObject(json))
+        return { ok: false, error: 'Message is not an object' };
+
+    for (const field of MESSAGE_FIELDS) {
+        if (json[field] !== undefined && !isObject(json[field]))
+            return { ok: false, error: `${field} must be an object` };
+    }
+
+    const message = json as BidiGenerateContentServerMessage;
+    if (message.toolCall && !Array.isArray(message.toolCall.functionCalls))
+        return { ok: false, error: 'toolCall.functionCalls must be an array' };
+    if (message.toolCallCancellation && !Array.isArray(message.toolCallCancellation.ids))
+        return { ok: false, error: 'toolCallCancellation.ids must be an array' };
+
+    return { ok: true, message };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,2 +1,3 @@
 export * from './gemini-live-client.js';
-export * from './gemini-live.dto.js';
\ No newline at end of file
+export * from './gemini-live.dto.js';
+export * from './gemini-live.parser.js';
@@ -0,0 +1,224 @@
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { BidiGenerateContentServerMessage, BidiGenerateContentSetup, BidiRequest, FunctionCall, UsageMetadata } from './gemini-live.dto.js';
+
+/** What the client sent that a scripted turn waits for before it plays. */
+export type MockGeminiTrigger = 'setup' | 'audio' | 'text' | 'toolResponse' | 'clientContent';
+
+export type MockGeminiEvent =
+    /** 24 kHz 16-bit PCM, sent as `modelTurn` inline data in chunks of `chunkMs` (default 40). */
+    | { audio: Int16Array | Buffer, chunkMs?: number }
+    | { text: string }
+    | { inputTranscription: string }
+    | { outputTranscription: string }
+    | { toolCall: FunctionCall[] }
+    | { toolCallCancellation: string[] }
+    | { turnComplete: true }
+    | { interrupted: true }
+    | { resumptionHandle: string }
+    | { goAway: number }
+    | { usage: UsageMetadata }
+    | { delayMs: number }
+    | { close: number, reason?: string }
+    | { message: BidiGenerateContentServerMessage };
+
+export interface MockGeminiTurn {
+    after: MockGeminiTrigger;
+    events: MockGeminiEvent[];
+}
+
+export interface MockGeminiSession {
+    id: number;
+    setup?: BidiGenerateContentSetup;
+    /** Every message received on this connection, in order. */
+    received: BidiRequest[];
+    send(message: BidiGenerateContentServerMessage): void;
+    close(code?: number, reason?: string): void;
+}
+
+interface Waiter {
+    predicate: (request: BidiRequest, session: MockGeminiSession) => boolean;
+    resolve: (request: BidiRequest) => void;
+}
+
+/**
+ * In-process stand-in for the BidiGenerateContent WebSocket. Point `GeminiLiveClientOptions.server.url`
+ * at `url`: every connection gets `setupComplete` once it sends `setup`, then plays the scripted turns
+ * in order, each one once the client sends what it waits for. Everything received is recorded.
+ */
+export class MockGeminiLiveServer {
+
+    public sessions: MockGeminiSession[] = [];
+
+    private wss?: WebSocketServer;
+    private turns: MockGeminiTurn[] = [];
+    private waiters: Waiter[] = [];
+
+    constructor(private port: number = 0) { }
+
+    get url(): string {
+        if (!this.wss)
+            throw new Error('MockGeminiLiveServer is not listening');
+        return `ws://127.0.0.1:${(this.wss.address() as AddressInfo).port}`;
+    }
+
+    /** Every message received on any connection, in order. */
+    get received(): BidiRequest[] {
+        return this.sessions.flatMap(session => session.received);
+    }
+
+    /** Caller audio received so far, as 16 kHz PCM bytes. */
+    get receivedAudio(): Buffer {
+        return Buffer.concat(this.received.flatMap(request => {
+            const data = request.realtimeInput?.audio?.data;
+            return data ? [Buffer.from(data, 'base64')] : [];
+        }));
+    }
+
+    listen(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this.wss = new WebSocketServer({ host: '127.0.0.1', port: this.port });
+            this.wss.once('listening', () => resolve(this.url));
+            this.wss.once('error', reject);
+            this.wss.on('connection', socket => this.handleConnection(socket));
+        });
+    }
+
+    /** Turns played on every new connection. */
+    script(turns: MockGeminiTurn[]) {
+        this.turns = turns;
+    }
+
+    /** Resolves with the next received message that matches, e.g. a `toolResponse`. */
+    waitFor(predicate: (request: BidiRequest, session: MockGeminiSession) => boolean, timeoutMs: number = 5000): Promise<BidiRequest> {
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = {
+                predicate,
+                resolve: request => {
+                    clearTimeout(timer);
+                    resolve(request);
+                }
+            };
+            const timer = setTimeout(() => {
+                this.waiters = this.waiters.filter(other => other !== waiter);
+                reject(new Error(`No matching message within ${timeoutMs}ms`));
+            }, timeoutMs);
+            this.waiters.push(waiter);
+        });
+    }
+
+    close(): Promise<void> {
+        return new Promise(resolve => {
+            if (!this.wss)
+                return resolve();
+            this.wss.clients.forEach(client => client.terminate());
+            this.wss.close(() => resolve());
+            this.wss = undefined;
+        });
+    }
+
+    private handleConnection(socket: WebSocket) {
+        const pending = [...this.turns];
+        let playing = false;
+        const session: MockGeminiSession = {
+            id: this.sessions.length + 1,
+            received: [],
+            send: message => {
+                if (socket.readyState === WebSocket.OPEN)
+                    socket.send(Buffer.from(JSON.stringify(message)));
+            },
+            close: (code = 1000, reason) => socket.close(code, reason)
+        };
+        this.sessions.push(session);
+
+        socket.on('message', async data => {
+            let request: BidiRequest;
+            try {
+                request = JSON.parse(data.toString());
+            } catch {
+                return session.close(1007, 'Invalid JSON');
+            }
+            session.received.push(request);
+
+            if (request.setup) {
+                session.setup = request.setup;
+                session.send({ setupComplete: {} });
+            }
+            this.notifyWaiters(request, session);
+
+            // Turns play one at a time; input arriving mid-turn doesn't trigger the next one
+            if (playing || !pending.length || !matches(pending[0].after, request))
+                return;
+            playing = true;
+            await this.play(session, pending.shift()!.events);
+            playing = false;
+        });
+    }
+
+    private notifyWaiters(request: BidiRequest, session: MockGeminiSession) {
+        const matched = this.waiters.filter(waiter => waiter.predicate(request, session));
+        this.waiters = this.waiters.filter(waiter => !matched.includes(waiter));
+        matched.forEach(waiter => waiter.resolve(request));
+    }
+
+    private async play(session: MockGeminiSession, events: MockGeminiEvent[]) {
+        for (const event of events) {
+            if ('delayMs' in event) {
+                await new Promise(resolve => setTimeout(resolve, event.delayMs));
+            } else if ('audio' in event) {
+                const pcm = Buffer.isBuffer(event.audio)
+                    ? event.audio
+                    : Buffer.from(event.audio.buffer, event.audio.byteOffset, event.audio.byteLength);
+                const chunkBytes = ((event.chunkMs ?? 40) * 24000 * 2) / 1000;
+                for (let offset = 0; offset < pcm.length; offset += chunkBytes) {
+                    session.send({
+                        serverContent: {
+                            modelTurn: {
+                                parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: pcm.subarray(offset, offset + chunkBytes).toString('base64') } }]
+                            }
+                        }
+                    });
+                }
+            } else if ('text' in event) {
+                session.send({ serverContent: { modelTurn: { parts: [{ text: event.text }] } } });
+            } else if ('inputTranscription' in event) {
+                session.send({ serverContent: { inputTranscription: { text: event.inputTranscription } } });
+            } else if ('outputTranscription' in event) {
+                session.send({ serverContent: { outputTranscription: { text: event.outputTranscription } } });
+            } else if ('toolCall' in event) {
+                session.send({ toolCall: { functionCalls: event.toolCall } });
+            } else if ('toolCallCancellation' in event) {
+                session.send({ toolCallCancellation: { ids: event.toolCallCancellation } });
+            } else if ('turnComplete' in event) {
+                session.send({ serverContent: { turnComplete: true } });
+            } else if ('interrupted' in event) {
+                session.send({ serverContent: { interrupted: true } });
+            } else if ('resumptionHandle' in event) {
+                session.send({ sessionResumptionUpdate: { newHandle: event.resumptionHandle, resumable: true } });
+            } else if ('goAway' in event) {
+                session.send({ goAway: { timeLeft: `${event.goAway / 1000}s` } });
+            } else if ('usage' in event) {
+                session.send({ usageMetadata: event.usage });
+            } else if ('close' in event) {
+                session.close(event.close, event.reason);
+            } else {
+                session.send(event.message);
+            }
+        }
+    }
+}
+
+function matches(trigger: MockGeminiTrigger, request: BidiRequest): boolean {
+    switch (trigger) {
+        case 'setup':
+            return !!request.setup;
+        case 'audio':
+            return !!request.realtimeInput?.audio || !!request.realtimeInput?.mediaChunks;
+        case 'text':
+            return request.realtimeInput?.text !== undefined;
+        case 'toolResponse':
+            return !!request.toolResponse;
+        case 'clientContent':
+            return !!request.clientContent;
+    }
+}
@@ -0,0 +1 @@
+export * from './mock-gemini-live-server.js';
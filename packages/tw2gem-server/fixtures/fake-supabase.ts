@@ -0,0 +1,83 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type FakeFilter = [method: 'eq' | 'neq' | 'lt' | 'gte' | 'or', ...args: unknown[]];
+
+export interface FakeQuery {
+  table: string
+  columns?: string
+  update?: Record<string, unknown>
+  filters: FakeFilter[]
+}
+
+export interface FakeResult {
+  data?: unknown
+  count?: number | null
+  error: { message: string } | null
+}
+
+export type FakeResponder = (query: FakeQuery) => FakeResult;
+
+// The part of PostgREST's query builder the services use; answered when awaited or on `single()`
+class FakeQueryBuilder implements PromiseLike<FakeResult> {
+  constructor(private query: FakeQuery, private respond: FakeResponder) { }
+
+  select(columns?: string) {
+    this.query.columns = columns;
+    return this;
+  }
+
+  update(values: Record<string, unknown>) {
+    this.query.update = values;
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    return this.filter('eq', column, value);
+  }
+
+  neq(column: string, value: unknown) {
+    return this.filter('neq', column, value);
+  }
+
+  lt(column: string, value: unknown) {
+    return this.filter('lt', column, value);
+  }
+
+  gte(column: string, value: unknown) {
+    return this.filter('gte', column, value);
+  }
+
+  or(filters: string) {
+    return this.filter('or', filters);
+  }
+
+  single(): Promise<FakeResult> {
+    return Promise.resolve(this.respond(this.query));
+  }
+
+  then<TResult1 = FakeResult, TResult2 = never>(
+    onfulfilled?: ((value: FakeResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.single().then(onfulfilled, onrejected);
+  }
+
+  private filter(...filter: FakeFilter) {
+    this.query.filters.push(filter);
+    return this;
+  }
+}
+
+/**
+ * A Supabase client whose `from()` queries are pushed to `queries` and answered by `respond`,
+ * for services that take a client in place of a URL and key.
+ */
+export function fakeSupabase(respond: FakeResponder = () => ({ error: null }), queries: FakeQuery[] = []): SupabaseClient {
+  return {
+    from: (table: string) => {
+      const query: FakeQuery = { table, filters: [] };
+      queries.push(query);
+      return new FakeQueryBuilder(query, respond);
+    }
+  } as unknown as SupabaseClient;
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeQuery, FakeResult, fakeSupabase } from '../fixtures/fake-supabase.js';
+import { AdmissionService, CALL_LEASE_MS } from './admission-service.js';
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+
+// Records each query and answers every one with `result`
+function serviceWith(queries: FakeQuery[], result: FakeResult = { error: null }) {
+  return new AdmissionService('host-a:1234', undefined, undefined, fakeSupabase(() => result, queries));
+}
+
+describe('AdmissionService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('releases only in-progress calls whose lease has lapsed or that never got one, whichever server held them', async () => {
+    const queries: FakeQuery[] = [];
+    await serviceWith(queries).releaseOrphanedCalls();
+    const cutoff = new Date(NOW.getTime() - CALL_LEASE_MS).toISOString();
+
+    expect(queries).toEqual([{
+      table: 'call_logs',
+      update: { status: 'abandoned', outcome: 'lease_expired', ended_at: NOW.toISOString() },
+      filters: [
+        ['eq', 'status', 'in_progress'],
+        ['or', `heartbeat_at.lt.${cutoff},and(heartbeat_at.is.null,started_at.lt.${cutoff})`]
+      ]
+    }]);
+  });
+
+  it('renews the lease under its own server id', async () => {
+    const queries: FakeQuery[] = [];
+    await serviceWith(queries).renewLease('call-1');
+
+    expect(queries[0].update).toEqual({ server_id: 'host-a:1234', heartbeat_at: NOW.toISOString() });
+    expect(queries[0].filters).toEqual([['eq', 'id', 'call-1']]);
+  });
+
+  it("counts other servers' calls with a current lease against the concurrency cap", async () => {
+    const queries: FakeQuery[] = [];
+    const service = serviceWith(queries, { data: { id: 'user-1', max_concurrent_calls: 3 }, count: 2, error: null });
+
+    const decision = await service.admit({ userId: 'user-1', direction: 'inbound', localProfileCalls: 1, localAgentCalls: 0 });
+
+    expect(decision).toMatchObject({ admitted: false, reason: 'profile_concurrency' });
+    expect(queries.find(query => query.filters.some(([method]) => method === 'gte'))?.filters).toEqual([
+      ['eq', 'profile_id', 'user-1'],
+      ['eq', 'status', 'in_progress'],
+      ['neq', 'server_id', 'host-a:1234'],
+      ['gte', 'heartbeat_at', new Date(NOW.getTime() - CALL_LEASE_MS).toISOString()]
+    ]);
+  });
+
+  it('does nothing without Supabase', async () => {
+    const service = new AdmissionService('host-a:1234');
+
+    await expect(service.releaseOrphanedCalls()).resolves.toBeUndefined();
+    await expect(service.admit({ userId: 'user-1', localProfileCalls: 10, localAgentCalls: 10 })).resolves.toEqual({ admitted: true });
+  });
+});
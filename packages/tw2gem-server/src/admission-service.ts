@@ -0,0 +1,195 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+export type AdmissionRejectionReason =
+  | 'inbound_disabled'
+  | 'outbound_disabled'
+  | 'minutes_exhausted'
+  | 'profile_concurrency'
+  | 'agent_concurrency'
+
+export interface AdmissionRequest {
+  userId?: string
+  agentId?: string
+  direction?: 'inbound' | 'outbound'
+  /** Calls of the profile already live, or being admitted, on this server. */
+  localProfileCalls: number
+  /** Calls of the agent already live, or being admitted, on this server. */
+  localAgentCalls: number
+}
+
+export interface AdmissionRejection {
+  admitted: false
+  reason: AdmissionRejectionReason
+  message: string
+}
+
+export type AdmissionDecision =
+  | {
+      admitted: true
+      /** The profile's `monthly_minute_limit`, when it has one. */
+      minuteLimit?: number
+    }
+  | AdmissionRejection
+
+interface AdmissionProfile {
+  id: string
+  monthly_minute_limit?: number | null
+  minutes_used?: number | null
+  max_concurrent_calls?: number | null
+  can_use_inbound?: boolean | null
+  can_use_outbound_dialer?: boolean | null
+}
+
+interface AdmissionAgent {
+  id: string
+  max_concurrent_calls?: number | null
+}
+
+/** A live call whose server has not renewed its lease for this long is taken to have died with it. */
+export const CALL_LEASE_MS = 90_000;
+
+/**
+ * Checks a call against its profile's plan before it is connected. Calls live on other servers
+ * are counted from `call_logs` rows whose lease (`server_id`, `heartbeat_at`) is current, so the
+ * counts survive restarts: a server that dies stops renewing its calls' leases.
+ */
+export class AdmissionService {
+  private supabase?: SupabaseClient;
+
+  /** `supabase`, when given, is used instead of a client built from the URL and key. */
+  constructor(private serverId: string, supabaseUrl?: string, supabaseKey?: string, supabase?: SupabaseClient) {
+    this.supabase = supabase || (supabaseUrl && supabaseKey ? createClient(supabaseUrl, supabaseKey) : undefined);
+  }
+
+  async admit(request: AdmissionRequest): Promise<AdmissionDecision> {
+    if (!this.supabase || !request.userId) {
+      return { admitted: true };
+    }
+
+    // Errors admit the call: a database hiccup should not take every line down
+    try {
+      const [profile, agent] = await Promise.all([
+        this.load<AdmissionProfile>('profiles', request.userId,
+          'id, monthly_minute_limit, minutes_used, max_concurrent_calls, can_use_inbound, can_use_outbound_dialer'),
+        this.load<AdmissionAgent>('ai_agents', request.agentId, 'id, max_concurrent_calls')
+      ]);
+      return await this.decide(request, profile, agent);
+    } catch (error) {
+      console.error('Error checking call admission:', error);
+      return { admitted: true };
+    }
+  }
+
+  // Claim the call for this server and renew its lease; called on start and then periodically
+  async renewLease(callId: string) {
+    if (!this.supabase) {
+      return;
+    }
+
+    try {
+      const { error } = await this.supabase
+        .from('call_logs')
+        .update({ server_id: this.serverId, heartbeat_at: new Date().toISOString() })
+        .eq('id', callId);
+      if (error) {
+        console.error('Error renewing call lease:', error);
+      }
+    } catch (error) {
+      console.error('Error renewing call lease:', error);
+    }
+  }
+
+  // Calls whose server stopped renewing their lease died with it, so close them out on startup.
+  // Live calls of other servers, or of other processes on this host, keep their lease current.
+  // A call that never got a lease (its server died before the first renewal) ages from its start.
+  async releaseOrphanedCalls() {
+    if (!this.supabase) {
+      return;
+    }
+
+    try {
+      const cutoff = new Date(Date.now() - CALL_LEASE_MS).toISOString();
+      const { error } = await this.supabase
+        .from('call_logs')
+        .update({ status: 'abandoned', outcome: 'lease_expired', ended_at: new Date().toISOString() })
+        .eq('status', 'in_progress')
+        .or(`heartbeat_at.lt.${cutoff},and(heartbeat_at.is.null,started_at.lt.${cutoff})`);
+      if (error) {
+        console.error('Error releasing orphaned calls:', error);
+      }
+    } catch (error) {
+      console.error('Error releasing orphaned calls:', error);
+    }
+  }
+
+  private async decide(request: AdmissionRequest, profile?: AdmissionProfile, agent?: AdmissionAgent): Promise<AdmissionDecision> {
+    if (request.direction === 'inbound' && profile?.can_use_inbound === false) {
+      return reject('inbound_disabled', 'Inbound calls are not enabled for this account');
+    }
+    if (request.direction === 'outbound' && profile?.can_use_outbound_dialer === false) {
+      return reject('outbound_disabled', 'Outbound calls are not enabled for this account');
+    }
+
+    const minuteLimit = hasLimit(profile?.monthly_minute_limit) ? profile!.monthly_minute_limit! : undefined;
+    if (minuteLimit !== undefined && (profile?.minutes_used || 0) >= minuteLimit) {
+      return reject('minutes_exhausted', 'The account has used all of its monthly minutes');
+    }
+
+    if (hasLimit(profile?.max_concurrent_calls)) {
+      const liveCalls = request.localProfileCalls + await this.countRemoteCalls('profile_id', request.userId!);
+      if (liveCalls >= profile!.max_concurrent_calls!) {
+        return reject('profile_concurrency', 'The account is at its concurrent call limit');
+      }
+    }
+    if (request.agentId && hasLimit(agent?.max_concurrent_calls)) {
+      const liveCalls = request.localAgentCalls + await this.countRemoteCalls('agent_id', request.agentId);
+      if (liveCalls >= agent!.max_concurrent_calls!) {
+        return reject('agent_concurrency', 'The agent is at its concurrent call limit');
+      }
+    }
+
+    return { admitted: true, minuteLimit };
+  }
+
+  // Live calls on other servers; this server's own are counted in memory
+  private async countRemoteCalls(column: 'profile_id' | 'agent_id', id: string): Promise<number> {
+    const { count, error } = await this.supabase!
+      .from('call_logs')
+      .select('id', { count: 'exact', head: true })
+      .eq(column, id)
+      .eq('status', 'in_progress')
+      .neq('server_id', this.serverId)
+      .gte('heartbeat_at', new Date(Date.now() - CALL_LEASE_MS).toISOString());
+
+    if (error) {
+      throw error;
+    }
+    return count || 0;
+  }
+
+  private async load<T>(table: string, id: string | undefined, columns: string): Promise<T | undefined> {
+    if (!id) {
+      return undefined;
+    }
+
+    const { data, error } = await this.supabase!
+      .from(table)
+      .select(columns)
+      .eq('id', id)
+      .single<T>();
+
+    if (error) {
+      throw error;
+    }
+    return data || undefined;
+  }
+}
+
+// A missing, zero or negative limit means unlimited, as in the dashboard
+function hasLimit(limit?: number | null): boolean {
+  return typeof limit === 'number' && limit > 0;
+}
+
+function reject(reason: AdmissionRejectionReason, message: string): AdmissionRejection {
+  return { admitted: false, reason, message };
+}
@@ -0,0 +1,168 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { BidiGenerateContentSetup, FunctionDeclaration } from '@tw2gem/gemini-live-client';
+import { fakeSupabase } from '../fixtures/fake-supabase.js';
+import {
+  AgentConfigAgent,
+  AgentConfigCampaign,
+  AgentConfigProfile,
+  AgentConfigResolver,
+  buildAgentConfig,
+  ESCALATE_CALL_FUNCTION
+} from './agent-config-resolver.js';
+
+interface AgentFixtures {
+  ai_agents: AgentConfigAgent[]
+  profiles: AgentConfigProfile[]
+  campaigns: AgentConfigCampaign[]
+}
+
+const fixtures: AgentFixtures = JSON.parse(readFileSync(new URL('../fixtures/agents.json', import.meta.url), 'utf8'));
+
+const find = <T extends { id: string }>(rows: T[], id: string) => rows.find(row => row.id === id);
+const agent = (id: string) => find(fixtures.ai_agents, id)!;
+const profile = (id: string) => find(fixtures.profiles, id);
+
+const BASE: BidiGenerateContentSetup = {
+  model: 'models/gemini-2.0-flash-live-001',
+  generationConfig: { temperature: 0.7 },
+  responseModalities: ['AUDIO'],
+  speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Aoede' } } },
+  realtimeInputConfig: { automaticActivityDetection: { prefixPaddingMs: 100 } }
+};
+
+const LOOKUP_TOOL: FunctionDeclaration = {
+  function_declarations: [{
+    name: 'lookup_customer',
+    description: 'Look up a customer',
+    parameters: { type: 'object', properties: { phone: { type: 'string' } } }
+  }]
+};
+
+const toolNames = (setup: BidiGenerateContentSetup) =>
+  (setup.tools || []).flatMap(tool => tool.function_declarations.map(declaration => declaration.name));
+
+// Answers the resolver's `from(table).select().eq('id', id).single()` lookups from the fixtures
+function resolverWithFixtures(lookups: string[] = []) {
+  const supabase = fakeSupabase(({ table, filters }) => {
+    const id = filters[0][2] as string;
+    lookups.push(`${table}:${id}`);
+    const data = find<{ id: string }>(fixtures[table as keyof AgentFixtures], id);
+    return data ? { data, error: null } : { data: null, error: { message: 'No rows found' } };
+  });
+  return new AgentConfigResolver(undefined, undefined, undefined, supabase);
+}
+
+describe('buildAgentConfig', () => {
+  it('applies the agent and its profile on top of the base setup', () => {
+    const support = agent('agent-support');
+    const config = buildAgentConfig(BASE, { agent: support, profile: profile(support.profile_id!) });
+
+    expect(config.provider).toBe('gemini');
+    expect(config.apiKey).toBe('profile-gemini-key');
+    expect(config.model).toBeUndefined();
+    expect(config.setup.model).toBe('models/gemini-live-2.5-flash-preview');
+    expect(config.setup.speechConfig).toEqual({
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
+      languageCode: 'en-US'
+    });
+    expect(config.setup.systemInstruction).toEqual({ parts: [{ text: 'You are the support line of Acme Plumbing.' }] });
+    expect(config.setup.realtimeInputConfig?.automaticActivityDetection).toEqual({
+      prefixPaddingMs: 100,
+      startOfSpeechSensitivity: 'START_SENSITIVITY_HIGH',
+      endOfSpeechSensitivity: 'END_SENSITIVITY_LOW',
+      silenceDurationMs: 800
+    });
+    expect(config.fallbackModels).toEqual(['models/gemini-2.0-flash-live-001', 'models/gemini-live-2.5-flash']);
+    expect(config.transcriptionEnabled).toBe(false);
+    expect(BASE.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName).toBe('Aoede');
+  });
+
+  it('passes the greeting on and leaves out empty ones', () => {
+    expect(buildAgentConfig(BASE, { agent: agent('agent-support') }).greeting)
+      .toBe('Thanks for calling Acme Plumbing, how can I help?');
+    expect(buildAgentConfig(BASE, { agent: agent('agent-sales') }).greeting).toBeUndefined();
+  });
+
+  it('offers the escalate_call function only to agents with escalation on', () => {
+    const support = buildAgentConfig(BASE, { agent: agent('agent-support') }, [LOOKUP_TOOL]);
+    expect(support.escalation).toEqual({ type: 'human_agent', phoneNumber: '+15550100' });
+    expect(toolNames(support.setup)).toEqual(['lookup_customer', ESCALATE_CALL_FUNCTION]);
+
+    const escalate = support.setup.tools![1].function_declarations[0];
+    expect(escalate.description).toContain('a human agent');
+    expect(escalate.parameters.required).toEqual(['reason']);
+
+    const sales = buildAgentConfig(BASE, { agent: agent('agent-sales') }, [LOOKUP_TOOL]);
+    expect(sales.escalation).toBeUndefined();
+    expect(toolNames(sales.setup)).toEqual(['lookup_customer']);
+
+    expect(buildAgentConfig(BASE, { agent: agent('agent-minimal') }).setup.tools).toBeUndefined();
+  });
+
+  it('uses the OpenAI key and model for OpenAI agents', () => {
+    const sales = agent('agent-sales');
+    const config = buildAgentConfig(BASE, { agent: sales, profile: profile(sales.profile_id!) });
+
+    expect(config.provider).toBe('openai');
+    expect(config.apiKey).toBe('profile-openai-key');
+    expect(config.model).toBe('gpt-4o-realtime-preview');
+    expect(config.fallbackModels).toBeUndefined();
+    expect(config.setup.realtimeInputConfig).toBe(BASE.realtimeInputConfig);
+  });
+
+  it("lets a campaign's instruction and voice override the agent's", () => {
+    const config = buildAgentConfig(BASE, { agent: agent('agent-support'), campaign: fixtures.campaigns[0] });
+
+    expect(config.setup.systemInstruction).toEqual({ parts: [{ text: 'You are calling about the spring boiler check.' }] });
+    expect(config.setup.speechConfig?.voiceConfig).toEqual({ prebuiltVoiceConfig: { voiceName: 'Puck' } });
+    expect(config.setup.speechConfig?.languageCode).toBe('en-US');
+  });
+
+  it('keeps the base setup for calls without an agent', () => {
+    const config = buildAgentConfig(BASE, {});
+
+    expect(config.provider).toBe('gemini');
+    expect(config.setup).toEqual(BASE);
+    expect(config.greeting).toBeUndefined();
+    expect(config.escalation).toBeUndefined();
+  });
+});
+
+describe('AgentConfigResolver', () => {
+  it("loads the agent, the agent's profile and the campaign", async () => {
+    const config = await resolverWithFixtures().resolve(BASE, {
+      agentId: 'agent-support',
+      userId: 'profile-openai',
+      campaignId: 'campaign-spring'
+    });
+
+    expect(config.apiKey).toBe('profile-gemini-key');
+    expect(config.greeting).toBe('Thanks for calling Acme Plumbing, how can I help?');
+    expect(config.escalation).toEqual({ type: 'human_agent', phoneNumber: '+15550100' });
+    expect(config.setup.speechConfig?.voiceConfig).toEqual({ prebuiltVoiceConfig: { voiceName: 'Puck' } });
+  });
+
+  it("falls back to the caller's profile and to defaults for missing rows", async () => {
+    const config = await resolverWithFixtures().resolve(BASE, { agentId: 'agent-unknown', userId: 'profile-pro' });
+
+    expect(config.provider).toBe('gemini');
+    expect(config.apiKey).toBe('profile-gemini-key');
+    expect(config.greeting).toBeUndefined();
+    expect(toolNames(config.setup)).toEqual([]);
+  });
+
+  it('reuses cached rows until they are invalidated, and does not cache misses', async () => {
+    const lookups: string[] = [];
+    const resolver = resolverWithFixtures(lookups);
+    const request = { agentId: 'agent-minimal' };
+
+    await resolver.resolve(BASE, request);
+    await resolver.resolve(BASE, request);
+    expect(lookups).toEqual(['ai_agents:agent-minimal', 'profiles:profile-missing', 'profiles:profile-missing']);
+
+    resolver.invalidate('ai_agents', 'agent-minimal');
+    await resolver.resolve(BASE, request);
+    expect(lookups.filter(lookup => lookup === 'ai_agents:agent-minimal')).toHaveLength(2);
+  });
+});
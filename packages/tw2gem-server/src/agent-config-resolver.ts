@@ -0,0 +1,283 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { BidiGenerateContentSetup, FunctionDeclaration } from '@tw2gem/gemini-live-client';
+import { RealtimeModelProvider } from './realtime-model.js';
+
+type Sensitivity = 'low' | 'medium' | 'high'
+
+/** Built-in function the model calls to hand the caller over to a person; only offered to agents with escalation on. */
+export const ESCALATE_CALL_FUNCTION = 'escalate_call';
+
+const ESCALATION_TARGETS: Record<NonNullable<AgentConfigAgent['escalation_type']>, string> = {
+  human_agent: 'a human agent',
+  supervisor: 'a supervisor',
+  voicemail: 'voicemail',
+  callback: 'a callback from the team'
+};
+
+// Shape of the `ai_agents.vad_settings` JSON column, mapped onto Gemini's automatic activity detection
+export interface AgentVadSettings {
+  disabled?: boolean
+  start_sensitivity?: Sensitivity
+  end_sensitivity?: Sensitivity
+  prefix_padding_ms?: number
+  silence_duration_ms?: number
+}
+
+export interface AgentConfigAgent {
+  id: string
+  profile_id?: string
+  model_provider?: RealtimeModelProvider | null
+  voice_name?: string
+  language_code?: string
+  system_instruction?: string
+  greeting?: string
+  escalation_enabled?: boolean
+  escalation_type?: 'human_agent' | 'supervisor' | 'voicemail' | 'callback'
+  escalation_phone_number?: string
+  vad_settings?: AgentVadSettings | null
+}
+
+export interface AgentConfigProfile {
+  id: string
+  gemini_model?: string
+  gemini_api_key?: string
+  /** Models to fail over to, in order, when a call loses its Gemini session. */
+  gemini_fallback_models?: string[] | null
+  openai_model?: string
+  openai_api_key?: string
+  transcription_enabled?: boolean
+}
+
+export interface AgentConfigCampaign {
+  id: string
+  custom_system_instruction?: string
+  custom_voice_name?: string
+}
+
+export interface AgentConfigSources {
+  agent?: AgentConfigAgent
+  profile?: AgentConfigProfile
+  campaign?: AgentConfigCampaign
+}
+
+export interface AgentConfigRequest {
+  agentId?: string
+  userId?: string
+  campaignId?: string
+}
+
+export interface ResolvedAgentConfig {
+  /** The agent's `model_provider`, Gemini unless set. */
+  provider: RealtimeModelProvider
+  /** Gemini setup; other providers translate it into their own session settings. */
+  setup: BidiGenerateContentSetup
+  /** The profile's own key for the provider, when it has one. */
+  apiKey?: string
+  /** The profile's model for providers other than Gemini, whose model is in `setup`. */
+  model?: string
+  /** The profile's Gemini failover chain, when it has one. */
+  fallbackModels?: string[]
+  /** What the agent opens an inbound call with; the model is asked to say it as soon as the session is ready. */
+  greeting?: string
+  /** The profile's `transcription_enabled` flag, when it is set. */
+  transcriptionEnabled?: boolean
+  /** Set when the agent may escalate; the model is then given the `escalate_call` function. */
+  escalation?: AgentEscalation
+}
+
+export interface AgentEscalation {
+  type?: AgentConfigAgent['escalation_type']
+  phoneNumber?: string
+}
+
+/**
+ * Builds a call's Gemini setup on top of `base`. The agent sets voice, language, instructions and
+ * VAD and the model provider; the profile picks the model and key; a campaign's custom instruction and
+ * voice override the agent's. Agents with escalation on also get the `escalate_call` function.
+ */
+export function buildAgentConfig(
+  base: BidiGenerateContentSetup,
+  sources: AgentConfigSources,
+  tools: FunctionDeclaration[] = []
+): ResolvedAgentConfig {
+  const { agent, profile, campaign } = sources;
+  const provider = agent?.model_provider || 'gemini';
+  const setup: BidiGenerateContentSetup = { ...base };
+
+  if (profile?.gemini_model) {
+    setup.model = toModelName(profile.gemini_model);
+  }
+
+  const voiceName = campaign?.custom_voice_name || agent?.voice_name;
+  if (voiceName || agent?.language_code) {
+    setup.speechConfig = {
+      ...base.speechConfig,
+      ...(voiceName && { voiceConfig: { prebuiltVoiceConfig: { voiceName } } }),
+      ...(agent?.language_code && { languageCode: agent.language_code })
+    };
+  }
+
+  const instruction = campaign?.custom_system_instruction || agent?.system_instruction;
+  if (instruction) {
+    setup.systemInstruction = { parts: [{ text: instruction }] };
+  }
+
+  const escalation: AgentEscalation | undefined = agent?.escalation_enabled
+    ? { type: agent.escalation_type, phoneNumber: agent.escalation_phone_number || undefined }
+    : undefined;
+  const callTools = escalation ? [...tools, escalationTool(escalation)] : tools;
+  if (callTools.length) {
+    setup.tools = [...(base.tools || []), ...callTools];
+  }
+
+  if (agent?.vad_settings) {
+    setup.realtimeInputConfig = {
+      ...base.realtimeInputConfig,
+      automaticActivityDetection: toActivityDetection(agent.vad_settings, base)
+    };
+  }
+
+  return {
+    provider,
+    setup,
+    apiKey: (provider === 'openai' ? profile?.openai_api_key : profile?.gemini_api_key) || undefined,
+    model: provider === 'openai' ? profile?.openai_model || undefined : undefined,
+    fallbackModels: profile?.gemini_fallback_models?.length ? profile.gemini_fallback_models.map(toModelName) : undefined,
+    greeting: agent?.greeting || undefined,
+    transcriptionEnabled: profile?.transcription_enabled ?? undefined,
+    escalation
+  };
+}
+
+function escalationTool(escalation: AgentEscalation): FunctionDeclaration {
+  const target = escalation.type ? ESCALATION_TARGETS[escalation.type] : 'a person';
+  return {
+    function_declarations: [{
+      name: ESCALATE_CALL_FUNCTION,
+      description: `Hand the caller over to ${target}. Use it when the caller asks for a person or you cannot help them any further, and tell the caller before calling it.`,
+      parameters: {
+        type: 'object',
+        properties: {
+          reason: { type: 'string', description: 'Why the call is being escalated, in one sentence.' }
+        },
+        required: ['reason']
+      }
+    }]
+  };
+}
+
+export function toModelName(model: string): string {
+  return model.startsWith('models/') ? model : `models/${model}`;
+}
+
+function toActivityDetection(vad: AgentVadSettings, base: BidiGenerateContentSetup) {
+  const detection = { ...base.realtimeInputConfig?.automaticActivityDetection };
+  if (vad.disabled !== undefined) {
+    detection.disabled = vad.disabled;
+  }
+  if (vad.start_sensitivity) {
+    detection.startOfSpeechSensitivity = `START_SENSITIVITY_${toSensitivity(vad.start_sensitivity)}`;
+  }
+  if (vad.end_sensitivity) {
+    detection.endOfSpeechSensitivity = `END_SENSITIVITY_${toSensitivity(vad.end_sensitivity)}`;
+  }
+  if (vad.prefix_padding_ms !== undefined) {
+    detection.prefixPaddingMs = vad.prefix_padding_ms;
+  }
+  if (vad.silence_duration_ms !== undefined) {
+    detection.silenceDurationMs = vad.silence_duration_ms;
+  }
+  return detection;
+}
+
+function toSensitivity(sensitivity: Sensitivity) {
+  return sensitivity.toUpperCase() as Uppercase<Sensitivity>;
+}
+
+interface CacheEntry {
+  expiresAt: number
+  value: Promise<any>
+}
+
+export class AgentConfigResolver {
+  private supabase?: SupabaseClient;
+  private cache = new Map<string, CacheEntry>();
+
+  /** `supabase`, when given, is used instead of a client built from the URL and key. */
+  constructor(supabaseUrl?: string, supabaseKey?: string, private cacheTtlMs: number = 60_000, supabase?: SupabaseClient) {
+    this.supabase = supabase || (supabaseUrl && supabaseKey ? createClient(supabaseUrl, supabaseKey) : undefined);
+  }
+
+  async resolve(
+    base: BidiGenerateContentSetup,
+    request: AgentConfigRequest,
+    tools: FunctionDeclaration[] = []
+  ): Promise<ResolvedAgentConfig> {
+    const [agent, campaign] = await Promise.all([
+      this.load<AgentConfigAgent>('ai_agents', request.agentId,
+        'id, profile_id, model_provider, voice_name, language_code, system_instruction, greeting, escalation_enabled, escalation_type, escalation_phone_number, vad_settings'),
+      this.load<AgentConfigCampaign>('campaigns', request.campaignId, 'id, custom_system_instruction, custom_voice_name')
+    ]);
+    const profile = await this.load<AgentConfigProfile>('profiles', agent?.profile_id || request.userId, 'id, gemini_model, gemini_api_key, gemini_fallback_models, openai_model, openai_api_key, transcription_enabled');
+
+    return buildAgentConfig(base, { agent, profile, campaign }, tools);
+  }
+
+  /** Drops cached rows so the next call sees edits straight away, e.g. after an agent is saved. */
+  invalidate(table?: 'ai_agents' | 'profiles' | 'campaigns', id?: string) {
+    if (!table) {
+      this.cache.clear();
+      return;
+    }
+    if (id) {
+      this.cache.delete(`${table}:${id}`);
+      return;
+    }
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(`${table}:`)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  private load<T>(table: string, id: string | undefined, columns: string): Promise<T | undefined> {
+    if (!this.supabase || !id) {
+      return Promise.resolve(undefined);
+    }
+
+    const key = `${table}:${id}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const value = this.fetch<T>(table, id, columns).then(row => {
+      // Misses are not cached, so a row created mid-TTL is picked up on the next call
+      if (!row) {
+        this.cache.delete(key);
+      }
+      return row;
+    });
+    this.cache.set(key, { expiresAt: Date.now() + this.cacheTtlMs, value });
+    return value;
+  }
+
+  private async fetch<T>(table: string, id: string, columns: string): Promise<T | undefined> {
+    try {
+      const { data, error } = await this.supabase!
+        .from(table)
+        .select(columns)
+        .eq('id', id)
+        .single<T>();
+
+      if (error) {
+        console.error(`Error loading ${table} ${id} for agent config:`, error);
+        return undefined;
+      }
+      return data || undefined;
+    } catch (error) {
+      console.error(`Error fetching ${table} ${id} for agent config:`, error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,138 @@
+export interface AgentTurnPlayback {
+    turnId: number;
+    /** Agent audio of the turn sent to Twilio. */
+    sentMs: number;
+    /** How much of it the caller has heard, from Twilio's mark acknowledgements. */
+    playedMs: number;
+    interrupted: boolean;
+}
+
+interface PendingMark {
+    turnId: number;
+    /** Turn audio sent up to and including the chunk the mark follows. */
+    samples: number;
+    /** Set on the mark that follows the last audio of a turn. */
+    endsTurn?: boolean;
+}
+
+/**
+ * Tracks how far Twilio has got through the agent audio sent to it. A mark follows every chunk and
+ * every finished turn; when Twilio echoes one back, everything before it has played. Between
+ * acknowledgements the position advances with the wall clock.
+ */
+export class AgentPlaybackTracker {
+
+    /** Twilio has played the whole of a finished turn. */
+    public onTurnPlayed?: (playback: AgentTurnPlayback) => void;
+    /** Every finished turn has played and no agent audio is pending. */
+    public onDrained?: () => void;
+
+    private turnId = 0;
+    private turnEnded = true;
+    private sentSamples = 0;
+    private anchorSamples = 0;
+    private anchorAt = 0;
+    private markCount = 0;
+    private readonly pending = new Map<string, PendingMark>();
+    // Twilio echoes outstanding marks after a clear even though their audio never played.
+    private readonly cleared = new Set<string>();
+
+    constructor(readonly sampleRate: number = 8000) {}
+
+    get currentTurnId(): number {
+        return this.turnId;
+    }
+
+    get outstandingMarks(): number {
+        return this.pending.size;
+    }
+
+    /** Records agent audio sent to Twilio and returns the name of the mark to send right after it. */
+    audioSent(samples: number): string {
+        if (this.turnEnded) {
+            this.turnId++;
+            this.turnEnded = false;
+            this.sentSamples = 0;
+            this.anchorSamples = 0;
+            this.anchorAt = Date.now();
+        }
+
+        this.sentSamples += samples;
+        const name = `agent-${this.turnId}-${++this.markCount}`;
+        this.pending.set(name, { turnId: this.turnId, samples: this.sentSamples });
+        return name;
+    }
+
+    /** Handles a mark echoed by Twilio. Returns false for marks that were cleared or not sent here. */
+    markPlayed(name: string): boolean {
+        if (this.cleared.delete(name))
+            return false;
+
+        const mark = this.pending.get(name);
+        if (!mark)
+            return false;
+
+        this.pending.delete(name);
+        if (mark.turnId === this.turnId) {
+            this.anchorSamples = mark.samples;
+            this.anchorAt = Date.now();
+        }
+
+        if (mark.endsTurn) {
+            const sentMs = this.toMs(mark.samples);
+            this.onTurnPlayed?.({ turnId: mark.turnId, sentMs, playedMs: sentMs, interrupted: false });
+        }
+        if (this.turnEnded && this.pending.size === 0)
+            this.onDrained?.();
+        return true;
+    }
+
+    /** Playback of the latest turn that sent audio. */
+    position(): AgentTurnPlayback {
+        let playedSamples = this.sentSamples;
+        if ([...this.pending.values()].some(mark => mark.turnId === this.turnId)) {
+            const elapsed = ((Date.now() - this.anchorAt) * this.sampleRate) / 1000;
+            playedSamples = Math.min(this.sentSamples, Math.round(this.anchorSamples + elapsed));
+        }
+
+        return {
+            turnId: this.turnId,
+            sentMs: this.toMs(this.sentSamples),
+            playedMs: this.toMs(playedSamples),
+            interrupted: false
+        };
+    }
+
+    /**
+     * The model finished the turn; its audio keeps playing and the next audio starts a new turn.
+     * Returns the mark to send after the turn's audio, or undefined if the turn had no audio.
+     */
+    endTurn(): string | undefined {
+        if (this.turnEnded)
+            return undefined;
+
+        this.turnEnded = true;
+        const name = `agent-${this.turnId}-end`;
+        this.pending.set(name, { turnId: this.turnId, samples: this.sentSamples, endsTurn: true });
+        return name;
+    }
+
+    /**
+     * Twilio's buffer was cleared: whatever had not played is gone. `unsentMarks` are marks that
+     * were dropped before reaching Twilio, so no echo will come back for them.
+     */
+    interrupt(unsentMarks: string[] = []): AgentTurnPlayback {
+        const playback = { ...this.position(), interrupted: true };
+        this.pending.forEach((_, name) => {
+            if (!unsentMarks.includes(name))
+                this.cleared.add(name);
+        });
+        this.pending.clear();
+        this.turnEnded = true;
+        return playback;
+    }
+
+    private toMs(samples: number): number {
+        return Math.round((samples * 1000) / this.sampleRate);
+    }
+}
@@ -0,0 +1,74 @@
+import { createClient } from '@supabase/supabase-js';
+import { AudioProcessingOptions } from '@tw2gem/audio-converter';
+
+// Shape of the `ai_agents.audio_settings` JSON column
+export interface AgentAudioSettings {
+  remove_dc_offset?: boolean
+  normalize_volume?: boolean
+  target_level_dbfs?: number
+  max_gain_db?: number
+  comfort_noise?: boolean
+  comfort_noise_level_dbfs?: number
+}
+
+export class AgentSettingsService {
+  private supabase: any;
+
+  constructor(supabaseUrl?: string, supabaseKey?: string) {
+    if (supabaseUrl && supabaseKey) {
+      this.supabase = createClient(supabaseUrl, supabaseKey);
+    }
+  }
+
+  // Merge an agent's audio settings over the server defaults
+  async getAudioProcessingOptions(agentId: string | undefined, defaults: AudioProcessingOptions = {}): Promise<AudioProcessingOptions> {
+    if (!this.supabase || !agentId) {
+      return defaults;
+    }
+
+    try {
+      const { data: agent, error } = await this.supabase
+        .from('ai_agents')
+        .select('audio_settings')
+        .eq('id', agentId)
+        .single();
+
+      if (error) {
+        console.error('Error loading agent audio settings:', error);
+        return defaults;
+      }
+      return this.toAudioProcessingOptions(agent?.audio_settings, defaults);
+    } catch (error) {
+      console.error('Error fetching agent audio settings:', error);
+      return defaults;
+    }
+  }
+
+  private toAudioProcessingOptions(settings: AgentAudioSettings | null | undefined, defaults: AudioProcessingOptions): AudioProcessingOptions {
+    if (!settings) {
+      return defaults;
+    }
+
+    const options: AudioProcessingOptions = { ...defaults };
+    if (settings.remove_dc_offset !== undefined) {
+      options.dcBlocker = settings.remove_dc_offset;
+    }
+    if (settings.normalize_volume === false) {
+      options.gainControl = false;
+    } else if (settings.normalize_volume || settings.target_level_dbfs !== undefined || settings.max_gain_db !== undefined) {
+      options.gainControl = {
+        ...(typeof defaults.gainControl === 'object' ? defaults.gainControl : {}),
+        ...(settings.target_level_dbfs !== undefined && { targetDbfs: settings.target_level_dbfs }),
+        ...(settings.max_gain_db !== undefined && { maxGainDb: settings.max_gain_db })
+      };
+    }
+    if (settings.comfort_noise === false) {
+      options.comfortNoise = false;
+    } else if (settings.comfort_noise || settings.comfort_noise_level_dbfs !== undefined) {
+      options.comfortNoise = settings.comfort_noise_level_dbfs !== undefined
+        ? { levelDbfs: settings.comfort_noise_level_dbfs }
+        : (defaults.comfortNoise || true);
+    }
+    return options;
+  }
+}
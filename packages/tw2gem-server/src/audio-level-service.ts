@@ -0,0 +1,102 @@
+import { createClient } from '@supabase/supabase-js';
+import { VoiceActivityFrame } from '@tw2gem/audio-converter';
+
+const SILENCE_DBFS = -96;
+
+/** One call's audio levels, as broadcast to the Live Calls page. */
+export interface CallAudioLevels {
+  call_id: string
+  /** Loudest caller frame since the last update, in dBFS. */
+  caller_dbfs: number
+  /** Loudest agent frame played since the last update, in dBFS. */
+  agent_dbfs: number
+  caller_speaking: boolean
+  timestamp: string
+}
+
+/** Keeps the peak caller and agent levels of a call between two published updates. */
+export class CallLevelMeter {
+  private callerDbfs = SILENCE_DBFS;
+  private agentDbfs = SILENCE_DBFS;
+  private callerSpeaking = false;
+
+  addCaller(frame: VoiceActivityFrame) {
+    this.callerDbfs = Math.max(this.callerDbfs, frame.dbfs);
+    this.callerSpeaking = this.callerSpeaking || frame.speaking;
+  }
+
+  addAgent(pcm: Int16Array) {
+    if (!pcm.length) return;
+    let sum = 0;
+    for (let i = 0; i < pcm.length; i++) {
+      sum += pcm[i] * pcm[i];
+    }
+    const rms = Math.sqrt(sum / pcm.length);
+    this.agentDbfs = Math.max(this.agentDbfs, rms > 0 ? 20 * Math.log10(rms / 32768) : SILENCE_DBFS);
+  }
+
+  /** Returns the levels since the last call and starts a new interval. */
+  take(callId: string): CallAudioLevels {
+    const levels = {
+      call_id: callId,
+      caller_dbfs: Math.round(this.callerDbfs),
+      agent_dbfs: Math.round(this.agentDbfs),
+      caller_speaking: this.callerSpeaking,
+      timestamp: new Date().toISOString()
+    };
+    this.callerDbfs = SILENCE_DBFS;
+    this.agentDbfs = SILENCE_DBFS;
+    this.callerSpeaking = false;
+    return levels;
+  }
+}
+
+/**
+ * Broadcasts live call levels over Supabase Realtime on the `audio_levels_<profile id>` channel.
+ * Levels change many times a second, so they are sent as broadcast messages and never written
+ * to the database. A profile's channel stays open while it has calls on this server.
+ */
+export class AudioLevelService {
+  private supabase: any;
+  private channels = new Map<string, { channel: any, calls: number }>();
+
+  constructor(supabaseUrl?: string, supabaseKey?: string) {
+    if (supabaseUrl && supabaseKey) {
+      this.supabase = createClient(supabaseUrl, supabaseKey);
+    }
+  }
+
+  get enabled(): boolean {
+    return !!this.supabase;
+  }
+
+  open(userId: string) {
+    if (!this.supabase) return;
+
+    const entry = this.channels.get(userId);
+    if (entry) {
+      entry.calls++;
+      return;
+    }
+    const channel = this.supabase.channel(`audio_levels_${userId}`);
+    channel.subscribe();
+    this.channels.set(userId, { channel, calls: 1 });
+  }
+
+  publish(userId: string, levels: CallAudioLevels) {
+    const entry = this.channels.get(userId);
+    if (!entry) return;
+
+    entry.channel
+      .send({ type: 'broadcast', event: 'levels', payload: levels })
+      .catch((error: unknown) => console.error('Error publishing call audio levels:', error));
+  }
+
+  close(userId: string) {
+    const entry = this.channels.get(userId);
+    if (!entry || --entry.calls > 0) return;
+
+    this.channels.delete(userId);
+    this.supabase.removeChannel(entry.channel);
+  }
+}
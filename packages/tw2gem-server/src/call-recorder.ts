@@ -0,0 +1,87 @@
+import { encodeWav, interleave } from '@tw2gem/audio-converter';
+
+class RecordingTrack {
+
+    private samples = new Int16Array(0);
+    length = 0;
+
+    write(position: number, chunk: Int16Array) {
+        const end = position + chunk.length;
+        if (end > this.samples.length) {
+            const grown = new Int16Array(Math.max(end, this.samples.length * 2, 8000 * 10));
+            grown.set(this.samples.subarray(0, this.length));
+            this.samples = grown;
+        }
+        this.samples.set(chunk, position);
+        this.length = Math.max(this.length, end);
+    }
+
+    truncate(position: number) {
+        if (position >= this.length)
+            return;
+        this.samples.fill(0, Math.max(0, position), this.length);
+        this.length = Math.max(0, position);
+    }
+
+    toArray(): Int16Array {
+        return this.samples.subarray(0, this.length);
+    }
+}
+
+/**
+ * Captures both sides of a call as 8 kHz PCM and renders them as a stereo WAV with the caller on
+ * the left channel and the agent on the right.
+ *
+ * Both tracks run on the stream's media clock. Caller frames are placed by the timestamp Twilio
+ * stamps on each media message, counted from the start of the stream. Agent audio has no
+ * timestamps, so it is placed where Twilio will start playing it: right after the previous agent
+ * audio, or at the current media time if the agent has been silent. The current media time is
+ * the latest caller timestamp plus the time since that frame arrived, or the time since
+ * `streamStartedAt` before any caller audio.
+ */
+export class CallRecorder {
+
+    private readonly caller = new RecordingTrack();
+    private readonly agent = new RecordingTrack();
+    private clock?: { timestampMs: number, receivedAt: number };
+
+    constructor(
+        readonly sampleRate: number = 8000,
+        /** When the stream's start event arrived, i.e. media time zero. */
+        private readonly streamStartedAt: number = Date.now()
+    ) { }
+
+    writeCaller(pcm: Int16Array, timestampMs?: number) {
+        if (timestampMs !== undefined && Number.isFinite(timestampMs)) {
+            this.clock = { timestampMs, receivedAt: Date.now() };
+            this.caller.write(Math.round((timestampMs * this.sampleRate) / 1000), pcm);
+            return;
+        }
+        this.caller.write(this.caller.length, pcm);
+    }
+
+    writeAgent(pcm: Int16Array) {
+        this.agent.write(Math.max(this.agent.length, this.elapsedSamples()), pcm);
+    }
+
+    /** Drops agent audio that had not played yet, e.g. after Twilio's buffer was cleared. */
+    truncateAgent() {
+        this.agent.truncate(this.elapsedSamples());
+    }
+
+    get durationMs(): number {
+        return (Math.max(this.caller.length, this.agent.length) * 1000) / this.sampleRate;
+    }
+
+    toWav(): Buffer {
+        const stereo = interleave([this.caller.toArray(), this.agent.toArray()]);
+        return encodeWav(stereo, { sampleRate: this.sampleRate, channels: 2 });
+    }
+
+    private elapsedSamples(): number {
+        const mediaTimeMs = this.clock
+            ? this.clock.timestampMs + Date.now() - this.clock.receivedAt
+            : Date.now() - this.streamStartedAt;
+        return Math.round((mediaTimeMs * this.sampleRate) / 1000);
+    }
+}
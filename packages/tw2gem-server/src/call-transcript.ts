@@ -0,0 +1,168 @@
+export type TranscriptSpeaker = 'caller' | 'agent' | 'tool';
+
+export interface TranscriptToolCall {
+    name: string;
+    args?: Record<string, any>;
+    result?: any;
+    error?: string;
+}
+
+export interface TranscriptSegment {
+    id: number;
+    speaker: TranscriptSpeaker;
+    text: string;
+    /** Offsets from the start of the call. */
+    startMs: number;
+    endMs: number;
+    /** False while Gemini may still add text to the segment. */
+    final: boolean;
+    /** Agent speech the caller talked over; `text` keeps only the part that played. */
+    interrupted?: boolean;
+    toolCall?: TranscriptToolCall;
+}
+
+/**
+ * Assembles Gemini's input and output transcription fragments into speaker turns. The caller's
+ * segment closes when the agent starts answering; the agent's closes when the model turn completes
+ * or the caller interrupts. `onSegment` fires on every change so subscribers can show partial text.
+ */
+export class CallTranscript {
+
+    public onSegment?: (segment: TranscriptSegment) => void;
+
+    private readonly items: TranscriptSegment[] = [];
+    private caller?: TranscriptSegment;
+    private agent?: TranscriptSegment;
+    private nextId = 1;
+
+    constructor(readonly startedAt: number = Date.now()) { }
+
+    get segments(): readonly TranscriptSegment[] {
+        return this.items;
+    }
+
+    addCallerText(text?: string) {
+        this.caller = this.append(this.caller, 'caller', text);
+    }
+
+    addAgentText(text?: string) {
+        if (!text)
+            return;
+        if (this.caller)
+            this.caller = this.finish(this.caller);
+        this.agent = this.append(this.agent, 'agent', text);
+    }
+
+    addToolCall(toolCall: TranscriptToolCall) {
+        const now = this.now();
+        const status = toolCall.error ? `failed: ${toolCall.error}` : 'completed';
+        this.push({
+            id: this.nextId++,
+            speaker: 'tool',
+            text: `${toolCall.name} ${status}`,
+            startMs: now,
+            endMs: now,
+            final: true,
+            toolCall
+        });
+    }
+
+    /** The model finished its turn. */
+    completeTurn() {
+        if (this.caller)
+            this.caller = this.finish(this.caller);
+        if (this.agent)
+            this.agent = this.finish(this.agent);
+    }
+
+    /** Cuts the open agent segment back to the share of its audio the caller heard. */
+    interruptAgent(heardFraction: number) {
+        if (!this.agent)
+            return;
+
+        const segment = this.agent;
+        segment.text = truncateAtWord(segment.text, heardFraction);
+        segment.interrupted = true;
+        this.agent = this.finish(segment);
+    }
+
+    /** The latest segments with text that fit in `maxChars`, oldest first, e.g. to brief a new model session. */
+    recentSegments(maxChars: number): TranscriptSegment[] {
+        const recent: TranscriptSegment[] = [];
+        let chars = 0;
+        for (let i = this.items.length - 1; i >= 0; i--) {
+            const segment = this.items[i];
+            if (!segment.text)
+                continue;
+            chars += segment.text.length;
+            if (chars > maxChars)
+                break;
+            recent.unshift({ ...segment });
+        }
+        return recent;
+    }
+
+    toText(): string {
+        return this.items
+            .filter(segment => segment.text)
+            .map(segment => `[${formatOffset(segment.startMs)}] ${SPEAKER_LABELS[segment.speaker]}: ${segment.text}`)
+            .join('\n');
+    }
+
+    toJSON(): TranscriptSegment[] {
+        return this.items.map(segment => ({ ...segment }));
+    }
+
+    private append(open: TranscriptSegment | undefined, speaker: TranscriptSpeaker, text?: string): TranscriptSegment | undefined {
+        if (!text)
+            return open;
+
+        if (!open) {
+            const now = this.now();
+            return this.push({ id: this.nextId++, speaker, text: text.trimStart(), startMs: now, endMs: now, final: false });
+        }
+
+        open.text += text;
+        open.endMs = this.now();
+        this.onSegment?.({ ...open });
+        return open;
+    }
+
+    private push(segment: TranscriptSegment): TranscriptSegment {
+        this.items.push(segment);
+        this.onSegment?.({ ...segment });
+        return segment;
+    }
+
+    private finish(segment: TranscriptSegment): undefined {
+        segment.text = segment.text.trim();
+        segment.endMs = this.now();
+        segment.final = true;
+        this.onSegment?.({ ...segment });
+        return undefined;
+    }
+
+    private now(): number {
+        return Date.now() - this.startedAt;
+    }
+}
+
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+    caller: 'Caller',
+    agent: 'Agent',
+    tool: 'Tool'
+};
+
+function truncateAtWord(text: string, fraction: number): string {
+    if (fraction >= 1)
+        return text;
+
+    const cut = Math.round(text.length * Math.max(0, fraction));
+    const boundary = text.lastIndexOf(' ', cut);
+    return text.slice(0, boundary > 0 ? boundary : cut).trim();
+}
+
+function formatOffset(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,117 @@
+import { RealtimeUsage } from './realtime-model.js';
+
+/** USD per million tokens. */
+export interface ModelPricing {
+    inputText: number;
+    inputAudio: number;
+    outputText: number;
+    outputAudio: number;
+}
+
+/** List prices of the models calls run on; estimates only, invoices are the providers'. */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+    'gemini-2.0-flash-live-001': { inputText: 0.35, inputAudio: 2.10, outputText: 1.50, outputAudio: 8.50 },
+    'gemini-live-2.5-flash-preview': { inputText: 0.50, inputAudio: 3.00, outputText: 2.00, outputAudio: 12.00 },
+    'gemini-2.5-flash-preview-native-audio-dialog': { inputText: 0.50, inputAudio: 3.00, outputText: 2.00, outputAudio: 12.00 },
+    'gpt-realtime': { inputText: 4.00, inputAudio: 32.00, outputText: 16.00, outputAudio: 64.00 }
+};
+
+/** What a call used, as sent with `call.completed` and stored in `call_logs.usage`. */
+export interface CallUsageSummary {
+    input_tokens: number;
+    output_tokens: number;
+    input_audio_tokens: number;
+    output_audio_tokens: number;
+    total_tokens: number;
+    /** Caller audio streamed to the model. */
+    caller_audio_seconds: number;
+    /** Agent audio the model streamed back. */
+    agent_audio_seconds: number;
+    /** Call time charged to the profile, in started minutes. */
+    billable_minutes: number;
+    /** Model cost in USD at `pricing`; 0 for models without a price. */
+    estimated_cost: number;
+    /** Tokens per model, as a call that failed over runs on several. */
+    models: Record<string, RealtimeUsage>;
+}
+
+/**
+ * Adds up the token reports and audio of one call's model sessions, and prices them per model so
+ * a call that failed over is costed at the rates of each model it ran on.
+ */
+export class CallUsage {
+
+    public onChange?: (usage: CallUsage) => void;
+
+    private models = new Map<string, RealtimeUsage>();
+    private cost = 0;
+    private callerAudioSeconds = 0;
+    private agentAudioSeconds = 0;
+
+    constructor(private pricing: Record<string, ModelPricing> = DEFAULT_MODEL_PRICING) { }
+
+    get inputTokens(): number {
+        return this.sum(usage => usage.inputTokens);
+    }
+
+    get outputTokens(): number {
+        return this.sum(usage => usage.outputTokens);
+    }
+
+    get totalTokens(): number {
+        return this.inputTokens + this.outputTokens;
+    }
+
+    get estimatedCost(): number {
+        return this.cost;
+    }
+
+    addTokens(model: string, usage: RealtimeUsage) {
+        const name = model.replace(/^models\//, '');
+        const total = this.models.get(name) || { inputTokens: 0, outputTokens: 0, inputAudioTokens: 0, outputAudioTokens: 0 };
+        total.inputTokens += usage.inputTokens;
+        total.outputTokens += usage.outputTokens;
+        total.inputAudioTokens += usage.inputAudioTokens;
+        total.outputAudioTokens += usage.outputAudioTokens;
+        this.models.set(name, total);
+
+        const price = this.pricing[name];
+        if (price) {
+            this.cost += ((usage.inputTokens - usage.inputAudioTokens) * price.inputText
+                + usage.inputAudioTokens * price.inputAudio
+                + (usage.outputTokens - usage.outputAudioTokens) * price.outputText
+                + usage.outputAudioTokens * price.outputAudio) / 1_000_000;
+        }
+        this.onChange?.(this);
+    }
+
+    addCallerAudio(samples: number, sampleRate: number) {
+        this.callerAudioSeconds += samples / sampleRate;
+    }
+
+    addAgentAudio(samples: number, sampleRate: number) {
+        this.agentAudioSeconds += samples / sampleRate;
+    }
+
+    toJSON(billableMinutes: number): CallUsageSummary {
+        return {
+            input_tokens: this.inputTokens,
+            output_tokens: this.outputTokens,
+            input_audio_tokens: this.sum(usage => usage.inputAudioTokens),
+            output_audio_tokens: this.sum(usage => usage.outputAudioTokens),
+            total_tokens: this.totalTokens,
+            caller_audio_seconds: Math.round(this.callerAudioSeconds * 10) / 10,
+            agent_audio_seconds: Math.round(this.agentAudioSeconds * 10) / 10,
+            billable_minutes: billableMinutes,
+            estimated_cost: Math.round(this.cost * 10000) / 10000,
+            models: Object.fromEntries(this.models)
+        };
+    }
+
+    private sum(field: (usage: RealtimeUsage) => number): number {
+        let total = 0;
+        for (const usage of this.models.values())
+            total += field(usage);
+        return total;
+    }
+}
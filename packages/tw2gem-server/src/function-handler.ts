@@ -10,6 +10,12 @@ export interface FunctionCallRequest {
   callId: string
   userId?: string
   agentId?: string
+  callSid?: string
+  campaignId?: string
+  leadId?: string
+  streamParameters?: Record<string, string>
+  /** Aborts the call, e.g. when Gemini cancels it after the caller interrupts */
+  signal?: AbortSignal
 }
 
 export interface FunctionCallResponse {
@@ -17,6 +23,7 @@ export interface FunctionCallResponse {
   result?: any
   error?: string
   executionTime?: number
+  cancelled?: boolean
 }
 
 export interface FunctionDefinition {
@@ -38,8 +45,15 @@ export interface FunctionContext {
   callId: string
   userId?: string
   agentId?: string
+  callSid?: string
+  campaignId?: string
+  leadId?: string
+  /** Every custom `<Parameter>` the call's stream was started with */
+  streamParameters?: Record<string, string>
   supabase?: any
   functionName?: string
+  /** Handlers doing slow I/O should pass this on so a cancelled call stops early */
+  signal?: AbortSignal
 }
 
 export interface ZapierIntegration {
@@ -193,7 +207,8 @@ export class FunctionCallHandler {
       const response = await axios.post(webhookUrl, args, {
         headers: {
           'Content-Type': 'application/json'
-        }
+        },
+        signal: context.signal
       });
       
       console.log(`Zapier webhook response for ${functionName}:`, {
@@ -234,6 +249,15 @@ export class FunctionCallHandler {
     const startTime = Date.now();
     
     try {
+      if (request.signal?.aborted) {
+        return {
+          success: false,
+          error: 'Function call cancelled',
+          executionTime: 0,
+          cancelled: true
+        };
+      }
+
       const functionDef = this.functions.get(request.name);
       if (!functionDef) {
         return {
@@ -257,12 +281,17 @@ export class FunctionCallHandler {
         callId: request.callId,
         userId: request.userId,
         agentId: request.agentId,
+        callSid: request.callSid,
+        campaignId: request.campaignId,
+        leadId: request.leadId,
+        streamParameters: request.streamParameters,
         supabase: this.supabase,
-        functionName: request.name // Add the function name to the context
+        functionName: request.name, // Add the function name to the context
+        signal: request.signal
       };
 
-      // Execute the function
-      const result = await functionDef.handler(request.args, context);
+      // Execute the function, giving up as soon as the call is cancelled
+      const result = await this.untilAborted(functionDef.handler(request.args, context), request.signal);
 
       const executionTime = Date.now() - startTime;
 
@@ -287,6 +316,14 @@ export class FunctionCallHandler {
 
     } catch (error) {
       const executionTime = Date.now() - startTime;
+      if (request.signal?.aborted) {
+        return {
+          success: false,
+          error: 'Function call cancelled',
+          executionTime,
+          cancelled: true
+        };
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
       // Log the failed function call
@@ -310,6 +347,17 @@ export class FunctionCallHandler {
     }
   }
 
+  private untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return promise;
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new Error('Function call cancelled'));
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
   // Register core business functions
   private registerCoreFunctions() {
     // Schedule appointment function
@@ -1008,7 +1056,8 @@ export class FunctionCallHandler {
           'Content-Type': 'application/json',
           'User-Agent': 'AI-Call-Center/1.0'
         },
-        body: JSON.stringify(webhookPayload)
+        body: JSON.stringify(webhookPayload),
+        signal: context.signal
       });
 
       if (!response.ok) {
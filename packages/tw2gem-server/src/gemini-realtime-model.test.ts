@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MockGeminiLiveServer } from '@tw2gem/gemini-live-client/testing';
+import { GeminiRealtimeModel } from './gemini-realtime-model.js';
+import { RealtimeUsage } from './realtime-model.js';
+
+describe('GeminiRealtimeModel', () => {
+  let server: MockGeminiLiveServer;
+  let model: GeminiRealtimeModel | undefined;
+
+  beforeEach(async () => {
+    server = new MockGeminiLiveServer();
+    await server.listen();
+  });
+
+  afterEach(async () => {
+    model?.close();
+    model = undefined;
+    await server.close();
+  });
+
+  it('reports each usageMetadata once, including when it arrives with the end of a turn', async () => {
+    server.script([{
+      after: 'text',
+      events: [
+        { usage: { promptTokenCount: 10, responseTokenCount: 5 } },
+        {
+          message: {
+            serverContent: { turnComplete: true },
+            usageMetadata: {
+              promptTokenCount: 100,
+              toolUsePromptTokenCount: 20,
+              responseTokenCount: 40,
+              thoughtsTokenCount: 8,
+              promptTokensDetails: [{ modality: 'AUDIO', tokenCount: 90 }, { modality: 'TEXT', tokenCount: 10 }],
+              responseTokensDetails: [{ modality: 'AUDIO', tokenCount: 40 }]
+            }
+          }
+        }
+      ]
+    }]);
+
+    const reports: RealtimeUsage[] = [];
+    const turnComplete = new Promise<void>(resolve => {
+      model = new GeminiRealtimeModel({
+        server: { url: server.url },
+        setup: { model: 'models/mock', responseModalities: ['AUDIO'] },
+        heartbeatIntervalMs: 0
+      });
+      model.onUsage = (usage) => reports.push(usage);
+      model.onTurnComplete = () => resolve();
+      model.onReady = () => model!.sendText('hello');
+      model.connect();
+    });
+    await turnComplete;
+
+    expect(reports).toEqual([
+      { inputTokens: 10, outputTokens: 5, inputAudioTokens: 0, outputAudioTokens: 0 },
+      { inputTokens: 120, outputTokens: 48, inputAudioTokens: 90, outputAudioTokens: 40 }
+    ]);
+  });
+});
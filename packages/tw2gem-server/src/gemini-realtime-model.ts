@@ -0,0 +1,133 @@
+import { int16ArrayToBuffer } from '@tw2gem/audio-converter';
+import { BidiGenerateContentServerContent, GeminiLiveClient, GeminiLiveClientOptions, ModalityTokenCount, UsageMetadata } from '@tw2gem/gemini-live-client';
+import { RealtimeHistoryTurn, RealtimeModelClient, RealtimeModelState, RealtimeSpeaker, RealtimeToolCall, RealtimeUsage } from './realtime-model.js';
+
+const GEMINI_OUTPUT_MIME_TYPE = 'audio/pcm;rate=24000';
+
+/** `RealtimeModelClient` over a Gemini Live session. */
+export class GeminiRealtimeModel implements RealtimeModelClient {
+
+    readonly provider = 'gemini';
+    readonly inputSampleRate = 16000;
+    readonly outputSampleRate = 24000;
+
+    public onReady?: () => void;
+    public onStateChange?: (state: RealtimeModelState, previous: RealtimeModelState) => void;
+    public onAudio?: (pcm: Buffer) => void;
+    public onTranscript?: (speaker: RealtimeSpeaker, text: string) => void;
+    public onInterrupted?: () => void;
+    public onTurnComplete?: () => void;
+    public onToolCall?: (calls: RealtimeToolCall[]) => void;
+    public onToolCallCancellation?: (ids: string[]) => void;
+    public onUsage?: (usage: RealtimeUsage) => void;
+    public onClose?: () => void;
+    public onError?: (error: unknown) => void;
+    // Gemini-only session events
+    public onGoAway?: (timeLeftMs: number) => void;
+    public onResumed?: (resumed: boolean) => void;
+
+    private client?: GeminiLiveClient;
+
+    constructor(private options: GeminiLiveClientOptions) { }
+
+    get model(): string {
+        return this.options.setup.model;
+    }
+
+    get state(): RealtimeModelState {
+        return this.client?.state || 'connecting';
+    }
+
+    get isReady(): boolean {
+        return !!this.client?.isReady;
+    }
+
+    get acceptsAudio(): boolean {
+        return !!(this.client?.isReady || this.client?.isResuming);
+    }
+
+    connect() {
+        const client = new GeminiLiveClient(this.options);
+        this.client = client;
+
+        client.onReady = () => this.onReady?.();
+        client.onStateChange = (state, previous) => this.onStateChange?.(state, previous);
+        client.onGoAway = (timeLeftMs) => this.onGoAway?.(timeLeftMs);
+        client.onResumed = (resumed) => this.onResumed?.(resumed);
+        client.onClose = () => this.onClose?.();
+        client.onError = (error) => this.onError?.(error);
+        client.onServerContent = (serverContent) => this.handleServerContent(serverContent);
+        client.onToolCall = (toolCall) => this.onToolCall?.(toolCall.functionCalls
+            .filter(functionCall => functionCall?.name)
+            .map(functionCall => ({ id: functionCall.id, name: functionCall.name, args: functionCall.args || {} })));
+        client.onToolCallCancellation = (cancellation) => this.onToolCallCancellation?.(cancellation.ids);
+        // Usage only ever comes as the message-level usageMetadata, so each report is counted once
+        client.onUsageMetadata = (usage) => this.onUsage?.(toRealtimeUsage(usage));
+    }
+
+    sendAudio(pcm: Int16Array) {
+        this.client?.sendRealTime({
+            audio: {
+                mimeType: `audio/pcm;rate=${this.inputSampleRate}`,
+                data: int16ArrayToBuffer(pcm).toString('base64')
+            }
+        });
+    }
+
+    sendText(text: string) {
+        this.client?.sendText(text);
+    }
+
+    sendToolResult(call: RealtimeToolCall, result: object) {
+        this.client?.sendFunctionResponse(call.name, result, call.id);
+    }
+
+    sendHistory(turns: RealtimeHistoryTurn[], prompt?: string) {
+        this.client?.sendClientContent({
+            turns: [
+                ...turns.map(turn => ({ role: turn.speaker === 'caller' ? 'user' : 'model', parts: [{ text: turn.text }] })),
+                ...(prompt ? [{ role: 'user', parts: [{ text: prompt }] }] : [])
+            ],
+            turnComplete: !!prompt
+        });
+    }
+
+    close() {
+        this.client?.close();
+    }
+
+    // One serverContent can carry a barge-in, transcripts, audio and the end of the turn, in that order
+    private handleServerContent(serverContent: BidiGenerateContentServerContent) {
+        if (serverContent.interrupted)
+            this.onInterrupted?.();
+
+        if (serverContent.inputTranscription?.text)
+            this.onTranscript?.('caller', serverContent.inputTranscription.text);
+        if (serverContent.outputTranscription?.text)
+            this.onTranscript?.('agent', serverContent.outputTranscription.text);
+
+        for (const part of serverContent.modelTurn?.parts || []) {
+            if (part.inlineData?.mimeType === GEMINI_OUTPUT_MIME_TYPE && part.inlineData.data)
+                this.onAudio?.(Buffer.from(part.inlineData.data, 'base64'));
+        }
+
+        if (serverContent.turnComplete)
+            this.onTurnComplete?.();
+    }
+}
+
+// Thinking and tool use prompts are billed like the rest of the response and prompt
+function toRealtimeUsage(usage: UsageMetadata): RealtimeUsage {
+    return {
+        inputTokens: (usage.promptTokenCount || 0) + (usage.toolUsePromptTokenCount || 0),
+        outputTokens: (usage.responseTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+        inputAudioTokens: audioTokens(usage.promptTokensDetails) + audioTokens(usage.toolUsePromptTokensDetails),
+        outputAudioTokens: audioTokens(usage.responseTokensDetails)
+    };
+}
+
+function audioTokens(details?: ModalityTokenCount[]): number {
+    return (details || [])
+        .filter(detail => detail.modality === 'AUDIO')
+        .reduce((sum, detail) => sum + (detail.tokenCount || 0), 0);
+}
@@ -1,2 +1,18 @@
 export * from './server.js';
-export * from './server.dto.js';
\ No newline at end of file
+export * from './server.dto.js';
+export * from './call-recorder.js';
+export * from './call-transcript.js';
+export * from './recording-service.js';
+export * from './agent-settings-service.js';
+export * from './agent-config-resolver.js';
+export * from './playback-mixer.js';
+export * from './agent-playback.js';
+export * from './playout-queue.js';
+export * from './stream-parameters.js';
+export * from './realtime-model.js';
+export * from './gemini-realtime-model.js';
+export * from './openai-realtime-model.js';
+export * from './call-usage.js';
+export * from './usage-service.js';
+export * from './admission-service.js';
+export * from './audio-level-service.js';
\ No newline at end of file
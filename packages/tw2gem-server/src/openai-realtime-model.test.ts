@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { OpenAIRealtimeError, OpenAIRealtimeModel } from './openai-realtime-model.js';
+import { RealtimeToolCall, RealtimeUsage } from './realtime-model.js';
+
+// Stands in for the Realtime endpoint: accepts the session and records what the adapter sends
+class MockRealtimeServer {
+  readonly received: any[] = [];
+  private wss?: WebSocketServer;
+  private socket?: WebSocket;
+  private waiters: Array<() => void> = [];
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.wss!.address() as AddressInfo).port}/v1/realtime`;
+  }
+
+  async listen() {
+    this.wss = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+    await new Promise<void>(resolve => this.wss!.once('listening', () => resolve()));
+    this.wss.on('connection', socket => {
+      this.socket = socket;
+      socket.on('message', data => {
+        const event = JSON.parse(data.toString());
+        this.received.push(event);
+        if (event.type === 'session.update')
+          this.emit({ type: 'session.updated', session: event.session });
+        this.waiters.splice(0).forEach(wake => wake());
+      });
+    });
+  }
+
+  emit(...events: object[]) {
+    events.forEach(event => this.socket?.send(JSON.stringify(event)));
+  }
+
+  async waitFor(type: string, count = 1) {
+    while (this.received.filter(event => event.type === type).length < count)
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+  }
+
+  async close() {
+    this.wss?.clients.forEach(client => client.terminate());
+    await new Promise<void>(resolve => this.wss ? this.wss.close(() => resolve()) : resolve());
+  }
+}
+
+describe('OpenAIRealtimeModel', () => {
+  let server: MockRealtimeServer;
+  let model: OpenAIRealtimeModel | undefined;
+
+  beforeEach(async () => {
+    server = new MockRealtimeServer();
+    await server.listen();
+  });
+
+  afterEach(async () => {
+    model?.close();
+    model = undefined;
+    await server.close();
+  });
+
+  async function connect(): Promise<OpenAIRealtimeModel> {
+    const connected = new OpenAIRealtimeModel({ url: server.url, apiKey: 'test' });
+    model = connected;
+    await new Promise<void>(resolve => {
+      connected.onReady = () => resolve();
+      connected.connect();
+    });
+    return connected;
+  }
+
+  it('plays audio deltas under either event name and reports the transcripts', async () => {
+    const model = await connect();
+    const audio: Buffer[] = [];
+    const transcripts: string[] = [];
+    model.onAudio = (pcm) => audio.push(pcm);
+    model.onTranscript = (speaker, text) => transcripts.push(`${speaker}: ${text}`);
+    const turnComplete = new Promise<void>(resolve => model.onTurnComplete = () => resolve());
+
+    server.emit(
+      { type: 'conversation.item.input_audio_transcription.completed', transcript: 'hi' },
+      { type: 'response.created', response: { id: 'resp_1' } },
+      { type: 'response.output_audio.delta', response_id: 'resp_1', delta: Buffer.from([1, 2]).toString('base64') },
+      { type: 'response.audio.delta', response_id: 'resp_1', delta: Buffer.from([3, 4]).toString('base64') },
+      { type: 'response.output_audio_transcript.delta', response_id: 'resp_1', delta: 'Hello' },
+      { type: 'response.done', response: { id: 'resp_1', status: 'completed' } }
+    );
+    await turnComplete;
+
+    expect(Buffer.concat(audio)).toEqual(Buffer.from([1, 2, 3, 4]));
+    expect(transcripts).toEqual(['caller: hi', 'agent: Hello']);
+  });
+
+  it('answers tool calls and asks for a response once the last result is in', async () => {
+    const model = await connect();
+    const calls: RealtimeToolCall[] = [];
+    model.onToolCall = (received) => calls.push(...received);
+    const turnComplete = new Promise<void>(resolve => model.onTurnComplete = () => resolve());
+
+    server.emit(
+      { type: 'response.created', response: { id: 'resp_1' } },
+      { type: 'response.function_call_arguments.done', response_id: 'resp_1', call_id: 'call_1', name: 'lookup', arguments: '{"id":7}' },
+      { type: 'response.function_call_arguments.done', response_id: 'resp_1', call_id: 'call_2', name: 'hangup', arguments: '' },
+      { type: 'response.done', response: { id: 'resp_1', status: 'completed' } }
+    );
+    await turnComplete;
+
+    expect(calls).toEqual([
+      { id: 'call_1', name: 'lookup', args: { id: 7 } },
+      { id: 'call_2', name: 'hangup', args: {} }
+    ]);
+
+    model.sendToolResult(calls[0], { found: true });
+    await server.waitFor('conversation.item.create');
+    model.sendToolResult(calls[1], { ok: true });
+    await server.waitFor('response.create');
+
+    expect(server.received.filter(event => event.type !== 'session.update')).toEqual([
+      { type: 'conversation.item.create', item: { type: 'function_call_output', call_id: 'call_1', output: '{"found":true}' } },
+      { type: 'conversation.item.create', item: { type: 'function_call_output', call_id: 'call_2', output: '{"ok":true}' } },
+      { type: 'response.create' }
+    ]);
+  });
+
+  it('cancels the pending tool calls of a response the caller cut off', async () => {
+    const model = await connect();
+    const calls: RealtimeToolCall[] = [];
+    const cancelled: string[][] = [];
+    model.onToolCall = (received) => calls.push(...received);
+    model.onToolCallCancellation = (ids) => cancelled.push(ids);
+    const turnComplete = new Promise<void>(resolve => model.onTurnComplete = () => resolve());
+
+    server.emit(
+      { type: 'response.created', response: { id: 'resp_1' } },
+      { type: 'response.function_call_arguments.done', response_id: 'resp_1', call_id: 'call_1', name: 'lookup', arguments: '{}' },
+      { type: 'response.done', response: { id: 'resp_1', status: 'cancelled' } }
+    );
+    await turnComplete;
+
+    expect(cancelled).toEqual([['call_1']]);
+
+    // A late result for a cancelled call is dropped rather than answered
+    model.sendToolResult(calls[0], { found: true });
+    model.sendText('still there?');
+    await server.waitFor('response.create');
+    expect(server.received.filter(event => event.item?.type === 'function_call_output')).toEqual([]);
+  });
+
+  it('reports the usage of each response', async () => {
+    const model = await connect();
+    const reports: RealtimeUsage[] = [];
+    model.onUsage = (usage) => reports.push(usage);
+    const turnComplete = new Promise<void>(resolve => model.onTurnComplete = () => resolve());
+
+    server.emit({
+      type: 'response.done',
+      response: {
+        id: 'resp_1',
+        status: 'completed',
+        usage: {
+          input_tokens: 120,
+          output_tokens: 48,
+          input_token_details: { audio_tokens: 90 },
+          output_token_details: { audio_tokens: 40 }
+        }
+      }
+    });
+    await turnComplete;
+
+    expect(reports).toEqual([{ inputTokens: 120, outputTokens: 48, inputAudioTokens: 90, outputAudioTokens: 40 }]);
+  });
+
+  it('raises error events through onError and ends the session', async () => {
+    const model = await connect();
+    const errors: unknown[] = [];
+    model.onError = (error) => errors.push(error);
+    const closed = new Promise<void>(resolve => model.onClose = () => resolve());
+
+    server.emit({
+      type: 'error',
+      event_id: 'event_9',
+      error: { type: 'server_error', code: 'internal_error', message: 'The server had an error', event_id: null }
+    });
+    await closed;
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(OpenAIRealtimeError);
+    expect(errors[0]).toMatchObject({ message: 'The server had an error', type: 'server_error', code: 'internal_error' });
+    expect(model.state).toBe('closed');
+  });
+});
@@ -0,0 +1,341 @@
+import { int16ArrayToBuffer } from '@tw2gem/audio-converter';
+import { BidiGenerateContentSetup } from '@tw2gem/gemini-live-client';
+import { WebSocket } from 'ws';
+import { RealtimeHistoryTurn, RealtimeModelClient, RealtimeModelState, RealtimeSpeaker, RealtimeToolCall, RealtimeUsage } from './realtime-model.js';
+
+export interface OpenAIRealtimeModelOptions {
+    apiKey?: string;
+    /** Defaults to OpenAI's endpoint; any server speaking the Realtime protocol works. */
+    url?: string;
+    /** Defaults to gpt-realtime. */
+    model?: string;
+    /** Used when the setup's voice is not an OpenAI voice. Defaults to alloy. */
+    voice?: string;
+    /** Defaults to gpt-4o-mini-transcribe. */
+    transcriptionModel?: string;
+    /**
+     * The call's Gemini setup, translated into the Realtime session: system instruction, voice,
+     * language, tools, activity detection and whether to transcribe.
+     */
+    setup?: BidiGenerateContentSetup;
+}
+
+export const OPENAI_REALTIME_VOICES = ['alloy', 'ash', 'ballad', 'cedar', 'coral', 'echo', 'marin', 'sage', 'shimmer', 'verse'];
+
+interface OpenAIRealtimeUsage {
+    input_tokens?: number;
+    output_tokens?: number;
+    input_token_details?: { audio_tokens?: number };
+    output_token_details?: { audio_tokens?: number };
+}
+
+/** The server events the adapter acts on; earlier versions of the protocol drop "output_" from the audio events. */
+type OpenAIRealtimeServerEvent =
+    | { type: 'session.updated' }
+    | { type: 'response.created', response: { id: string } }
+    | { type: 'response.output_audio.delta' | 'response.audio.delta', response_id: string, delta: string }
+    | { type: 'response.output_audio_transcript.delta' | 'response.audio_transcript.delta', response_id: string, delta: string }
+    | { type: 'conversation.item.input_audio_transcription.completed', transcript: string }
+    | { type: 'input_audio_buffer.speech_started' }
+    | { type: 'response.function_call_arguments.done', response_id: string, call_id: string, name: string, arguments: string }
+    | { type: 'response.done', response: { id: string, status: 'completed' | 'cancelled' | 'failed' | 'incomplete', usage?: OpenAIRealtimeUsage } }
+    | { type: 'error', error: { type: string, code?: string | null, message: string, event_id?: string | null } };
+
+/** An `error` event from the Realtime server. */
+export class OpenAIRealtimeError extends Error {
+    constructor(
+        message: string,
+        /** OpenAI's error type, e.g. `invalid_request_error` or `server_error`. */
+        readonly type: string,
+        readonly code?: string,
+        /** The client event that caused it, when there was one. */
+        readonly eventId?: string
+    ) {
+        super(message);
+        this.name = 'OpenAIRealtimeError';
+    }
+}
+
+const DEFAULT_OPENAI_REALTIME_URL = 'wss://api.openai.com/v1/realtime';
+const SAMPLE_RATE = 24000;
+const VAD_THRESHOLDS = { LOW: 0.7, MEDIUM: 0.5, HIGH: 0.3 };
+
+/**
+ * `RealtimeModelClient` over the OpenAI Realtime WebSocket API. Tool results are answered with
+ * `function_call_output` items, and a new response is requested once every call of a response
+ * has its result. Calls of a response the caller cut off are reported as cancelled.
+ */
+export class OpenAIRealtimeModel implements RealtimeModelClient {
+
+    readonly provider = 'openai';
+    readonly inputSampleRate = SAMPLE_RATE;
+    readonly outputSampleRate = SAMPLE_RATE;
+
+    public onReady?: () => void;
+    public onStateChange?: (state: RealtimeModelState, previous: RealtimeModelState) => void;
+    public onAudio?: (pcm: Buffer) => void;
+    public onTranscript?: (speaker: RealtimeSpeaker, text: string) => void;
+    public onInterrupted?: () => void;
+    public onTurnComplete?: () => void;
+    public onToolCall?: (calls: RealtimeToolCall[]) => void;
+    public onToolCallCancellation?: (ids: string[]) => void;
+    public onUsage?: (usage: RealtimeUsage) => void;
+    public onClose?: () => void;
+    public onError?: (error: unknown) => void;
+
+    private socket?: WebSocket;
+    private _state: RealtimeModelState = 'connecting';
+    private responseActive = false;
+    private responseHadToolCalls = false;
+    // Call ids still waiting for their result, with the response that made them
+    private pendingToolCalls = new Map<string, string>();
+    // Whether agent audio arrived since the caller last started speaking, i.e. there is something to cut off
+    private agentAudioSinceSpeech = false;
+
+    constructor(private options: OpenAIRealtimeModelOptions) { }
+
+    get model(): string {
+        return this.options.model || 'gpt-realtime';
+    }
+
+    get state(): RealtimeModelState {
+        return this._state;
+    }
+
+    get isReady(): boolean {
+        return this._state === 'ready';
+    }
+
+    get acceptsAudio(): boolean {
+        return this.isReady;
+    }
+
+    connect() {
+        const url = new URL(this.options.url || DEFAULT_OPENAI_REALTIME_URL);
+        url.searchParams.set('model', this.model);
+        const socket = new WebSocket(url.toString(), {
+            headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}
+        });
+        this.socket = socket;
+
+        socket.on('open', () => this.send({ type: 'session.update', session: this.buildSession() }));
+        socket.on('message', data => this.handleMessage(data.toString()));
+        socket.on('error', error => this.onError?.(error));
+        socket.on('close', () => {
+            this.setState('closed');
+            this.onClose?.();
+        });
+    }
+
+    sendAudio(pcm: Int16Array) {
+        if (this.isReady)
+            this.send({ type: 'input_audio_buffer.append', audio: int16ArrayToBuffer(pcm).toString('base64') });
+    }
+
+    sendText(text: string) {
+        this.send({
+            type: 'conversation.item.create',
+            item: { type: 'message', role: 'user', content: [{ type: 'input_text', text }] }
+        });
+        if (!this.responseActive)
+            this.send({ type: 'response.create' });
+    }
+
+    sendHistory(turns: RealtimeHistoryTurn[], prompt?: string) {
+        for (const turn of turns) {
+            this.send({
+                type: 'conversation.item.create',
+                item: turn.speaker === 'caller'
+                    ? { type: 'message', role: 'user', content: [{ type: 'input_text', text: turn.text }] }
+                    : { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: turn.text }] }
+            });
+        }
+        if (prompt)
+            this.sendText(prompt);
+    }
+
+    sendToolResult(call: RealtimeToolCall, result: object) {
+        if (!call.id || !this.pendingToolCalls.has(call.id))
+            return;
+        this.send({
+            type: 'conversation.item.create',
+            item: { type: 'function_call_output', call_id: call.id, output: JSON.stringify(result) }
+        });
+        this.pendingToolCalls.delete(call.id);
+        this.continueAfterToolCalls();
+    }
+
+    close() {
+        this.socket?.close();
+    }
+
+    private handleMessage(raw: string) {
+        const event = parseServerEvent(raw);
+        if (!event) {
+            console.warn('OpenAI Realtime sent a message that is not a JSON event');
+            return;
+        }
+
+        switch (event.type) {
+            case 'session.updated':
+                if (this._state === 'connecting') {
+                    this.setState('ready');
+                    this.onReady?.();
+                }
+                break;
+            case 'response.created':
+                this.responseActive = true;
+                this.responseHadToolCalls = false;
+                break;
+            case 'response.output_audio.delta':
+            case 'response.audio.delta':
+                this.agentAudioSinceSpeech = true;
+                this.onAudio?.(Buffer.from(event.delta, 'base64'));
+                break;
+            case 'response.output_audio_transcript.delta':
+            case 'response.audio_transcript.delta':
+                this.onTranscript?.('agent', event.delta);
+                break;
+            case 'conversation.item.input_audio_transcription.completed':
+                this.onTranscript?.('caller', event.transcript);
+                break;
+            case 'input_audio_buffer.speech_started':
+                if (this.agentAudioSinceSpeech) {
+                    this.agentAudioSinceSpeech = false;
+                    this.onInterrupted?.();
+                }
+                break;
+            case 'response.function_call_arguments.done':
+                this.responseHadToolCalls = true;
+                this.pendingToolCalls.set(event.call_id, event.response_id);
+                this.onToolCall?.([{ id: event.call_id, name: event.name, args: parseArguments(event.arguments) }]);
+                break;
+            case 'response.done':
+                this.responseActive = false;
+                if (event.response.status === 'cancelled')
+                    this.cancelToolCalls(event.response.id);
+                if (event.response.usage)
+                    this.onUsage?.(toRealtimeUsage(event.response.usage));
+                this.onTurnComplete?.();
+                this.continueAfterToolCalls();
+                break;
+            case 'error':
+                // The server treats onError as the end of the session, so make it one
+                this.onError?.(new OpenAIRealtimeError(
+                    event.error.message,
+                    event.error.type,
+                    event.error.code || undefined,
+                    event.error.event_id || undefined
+                ));
+                this.close();
+                break;
+        }
+    }
+
+    // A response cut off by the caller no longer wants the results of its calls
+    private cancelToolCalls(responseId: string) {
+        const ids = [...this.pendingToolCalls].filter(([, response]) => response === responseId).map(([id]) => id);
+        if (!ids.length)
+            return;
+        ids.forEach(id => this.pendingToolCalls.delete(id));
+        this.responseHadToolCalls = false;
+        this.onToolCallCancellation?.(ids);
+    }
+
+    // The model only carries on after tool calls when asked, so ask once the last result is in
+    private continueAfterToolCalls() {
+        if (this.responseActive || !this.responseHadToolCalls || this.pendingToolCalls.size)
+            return;
+        this.responseHadToolCalls = false;
+        this.send({ type: 'response.create' });
+    }
+
+    private buildSession() {
+        const setup = this.options.setup || <BidiGenerateContentSetup>{};
+        const setupVoice = setup.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName;
+        const voice = setupVoice && OPENAI_REALTIME_VOICES.includes(setupVoice) ? setupVoice : this.options.voice || 'alloy';
+        const language = setup.speechConfig?.languageCode;
+        const instructions = [
+            setup.systemInstruction?.parts.map(part => part.text).join('\n'),
+            language && `Speak in the language with code ${language} unless the caller uses another one.`
+        ].filter(Boolean).join('\n\n');
+        const activityDetection = setup.realtimeInputConfig?.automaticActivityDetection;
+        const sensitivity = activityDetection?.startOfSpeechSensitivity?.replace('START_SENSITIVITY_', '') as keyof typeof VAD_THRESHOLDS | undefined;
+
+        return {
+            type: 'realtime',
+            model: this.model,
+            output_modalities: ['audio'],
+            ...(instructions && { instructions }),
+            audio: {
+                input: {
+                    format: { type: 'audio/pcm', rate: SAMPLE_RATE },
+                    transcription: setup.inputAudioTranscription
+                        ? { model: this.options.transcriptionModel || 'gpt-4o-mini-transcribe', ...(language && { language: language.split('-')[0] }) }
+                        : null,
+                    turn_detection: activityDetection?.disabled ? null : {
+                        type: 'server_vad',
+                        create_response: true,
+                        interrupt_response: true,
+                        ...(sensitivity && { threshold: VAD_THRESHOLDS[sensitivity] }),
+                        ...(activityDetection?.prefixPaddingMs !== undefined && { prefix_padding_ms: activityDetection.prefixPaddingMs }),
+                        ...(activityDetection?.silenceDurationMs !== undefined && { silence_duration_ms: activityDetection.silenceDurationMs })
+                    }
+                },
+                output: {
+                    format: { type: 'audio/pcm', rate: SAMPLE_RATE },
+                    voice
+                }
+            },
+            tools: (setup.tools || []).flatMap(tool => tool.function_declarations).map(declaration => ({
+                type: 'function',
+                name: declaration.name,
+                description: declaration.description,
+                parameters: declaration.parameters
+            }))
+        };
+    }
+
+    private setState(state: RealtimeModelState) {
+        const previous = this._state;
+        if (previous === state)
+            return;
+        this._state = state;
+        this.onStateChange?.(state, previous);
+    }
+
+    private send(event: object) {
+        if (this.socket?.readyState === WebSocket.OPEN)
+            this.socket.send(JSON.stringify(event));
+    }
+}
+
+// Only checks the envelope; the fields of each event type are as OpenAI documents them
+function parseServerEvent(raw: string): OpenAIRealtimeServerEvent | undefined {
+    let json: unknown;
+    try {
+        json = JSON.parse(raw);
+    } catch {
+        return undefined;
+    }
+    if (typeof json !== 'object' || json === null || typeof (json as { type?: unknown }).type !== 'string')
+        return undefined;
+    return json as OpenAIRealtimeServerEvent;
+}
+
+function toRealtimeUsage(usage: OpenAIRealtimeUsage): RealtimeUsage {
+    return {
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        inputAudioTokens: usage.input_token_details?.audio_tokens || 0,
+        outputAudioTokens: usage.output_token_details?.audio_tokens || 0
+    };
+}
+
+function parseArguments(json: string): Record<string, any> {
+    try {
+        return json ? JSON.parse(json) : {};
+    } catch {
+        return {};
+    }
+}
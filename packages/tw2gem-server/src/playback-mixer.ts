@@ -0,0 +1,146 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { clamp16, decodeG711, decodeWav, downmix, G711Codec, Resampler } from '@tw2gem/audio-converter';
+
+const SAMPLE_RATE = 8000;
+
+/** A prerecorded prompt or piece of hold music, stored as 8 kHz mono PCM ready for the call. */
+export class AudioClip {
+
+    constructor(readonly samples: Int16Array) {}
+
+    get durationMs(): number {
+        return (this.samples.length * 1000) / SAMPLE_RATE;
+    }
+
+    static fromWav(data: Uint8Array): AudioClip {
+        const { format, samples } = decodeWav(data);
+        const mono = downmix(samples, format.channels);
+        return new AudioClip(format.sampleRate === SAMPLE_RATE ? mono : Resampler.resample(mono, format.sampleRate, SAMPLE_RATE, 'high'));
+    }
+
+    /** Headerless 8 kHz G.711, as Twilio itself streams it. */
+    static fromG711(data: Uint8Array, codec: G711Codec = 'mulaw'): AudioClip {
+        return new AudioClip(decodeG711(data, codec));
+    }
+
+    /** Loads a `.wav` file, or a raw `.ulaw`/`.alaw` file by its extension. */
+    static async fromFile(path: string): Promise<AudioClip> {
+        const data = await readFile(path);
+        if (data.toString('ascii', 0, 4) === 'RIFF')
+            return AudioClip.fromWav(data);
+
+        const extension = extname(path).toLowerCase();
+        if (['.ul', '.ulaw', '.mulaw', '.raw'].includes(extension))
+            return AudioClip.fromG711(data, 'mulaw');
+        if (['.al', '.alaw'].includes(extension))
+            return AudioClip.fromG711(data, 'alaw');
+        throw new Error(`Unsupported audio clip: ${path}`);
+    }
+}
+
+export interface PlaybackOptions {
+    loop?: boolean;
+    /** Linear gain applied to the clip. */
+    volume?: number;
+}
+
+export class Playback {
+
+    public finished = false;
+    private position = 0;
+
+    constructor(readonly clip: AudioClip, private options: PlaybackOptions = {}) {}
+
+    stop() {
+        this.finished = true;
+    }
+
+    /** Adds the clip's next `output.length` samples into `output`. */
+    mixInto(output: Float64Array) {
+        const { samples } = this.clip;
+        const volume = this.options.volume ?? 1;
+
+        for (let i = 0; i < output.length && !this.finished; i++) {
+            if (this.position >= samples.length) {
+                if (!this.options.loop || samples.length === 0) {
+                    this.finished = true;
+                    break;
+                }
+                this.position = 0;
+            }
+            output[i] += samples[this.position++] * volume;
+        }
+    }
+}
+
+/**
+ * Mixes prerecorded clips into a paced stream of 20 ms frames for one call. Frames are emitted on a
+ * wall-clock schedule a little ahead of real time, so stopping takes effect within `leadMs` instead
+ * of after everything already queued at Twilio.
+ */
+export class PlaybackMixer {
+
+    public onFrame?: (pcm8k: Int16Array) => void;
+    public onIdle?: () => void;
+
+    private playbacks: Playback[] = [];
+    private timer?: NodeJS.Timeout;
+    private startedAt = 0;
+    private framesSent = 0;
+    private readonly frameSamples: number;
+    private readonly mix: Float64Array;
+
+    constructor(private frameMs: number = 20, private leadMs: number = 60) {
+        this.frameSamples = (SAMPLE_RATE * frameMs) / 1000;
+        this.mix = new Float64Array(this.frameSamples);
+    }
+
+    get playing(): boolean {
+        return this.playbacks.length > 0;
+    }
+
+    play(clip: AudioClip, options: PlaybackOptions = {}): Playback {
+        const playback = new Playback(clip, options);
+        this.playbacks.push(playback);
+        if (!this.timer) {
+            this.startedAt = Date.now();
+            this.framesSent = 0;
+            this.timer = setInterval(() => this.tick(), this.frameMs);
+            this.tick();
+        }
+        return playback;
+    }
+
+    stopAll() {
+        this.playbacks.forEach(playback => playback.stop());
+        this.idle();
+    }
+
+    private tick() {
+        const due = Math.floor((Date.now() - this.startedAt + this.leadMs) / this.frameMs);
+        while (this.framesSent < due) {
+            this.playbacks = this.playbacks.filter(playback => !playback.finished);
+            if (!this.playbacks.length)
+                return this.idle();
+
+            this.mix.fill(0);
+            this.playbacks.forEach(playback => playback.mixInto(this.mix));
+            const frame = new Int16Array(this.frameSamples);
+            for (let i = 0; i < frame.length; i++)
+                frame[i] = clamp16(this.mix[i]);
+
+            this.framesSent++;
+            this.onFrame?.(frame);
+        }
+    }
+
+    private idle() {
+        if (!this.timer)
+            return;
+        clearInterval(this.timer);
+        this.timer = undefined;
+        this.playbacks = [];
+        this.onIdle?.();
+    }
+}
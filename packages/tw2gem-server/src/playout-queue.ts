@@ -0,0 +1,102 @@
+type PlayoutItem = { media: Buffer } | { mark: string };
+
+/**
+ * Per-call outbound queue that releases G.711 audio to Twilio at real time, at most `leadMs` ahead
+ * of playback, so a clear or a change of plan never has seconds of audio already buffered at
+ * Twilio. Marks are released in order with the audio around them.
+ */
+export class PlayoutQueue {
+
+    public onMedia?: (payload: Buffer) => void;
+    public onMark?: (name: string) => void;
+
+    private items: PlayoutItem[] = [];
+    private queuedBytes = 0;
+    private timer?: NodeJS.Timeout;
+    private clockStartedAt = 0;
+    private releasedMs = 0;
+
+    constructor(
+        private frameMs: number = 20,
+        private leadMs: number = 100,
+        private bytesPerMs: number = 8
+    ) { }
+
+    /** Audio still waiting in this queue. */
+    get queuedMs(): number {
+        return this.queuedBytes / this.bytesPerMs;
+    }
+
+    /** Audio already released to Twilio that has not finished playing. */
+    get bufferedMs(): number {
+        return Math.max(0, this.clockStartedAt + this.releasedMs - Date.now());
+    }
+
+    get aheadMs(): number {
+        return this.queuedMs + this.bufferedMs;
+    }
+
+    enqueueMedia(payload: Buffer) {
+        const frameBytes = this.frameMs * this.bytesPerMs;
+        for (let offset = 0; offset < payload.length; offset += frameBytes)
+            this.items.push({ media: payload.subarray(offset, offset + frameBytes) });
+        this.queuedBytes += payload.length;
+        this.start();
+    }
+
+    enqueueMark(name: string) {
+        this.items.push({ mark: name });
+        this.start();
+    }
+
+    /** Drops everything not yet released and returns the names of the marks that were dropped. */
+    clear(): string[] {
+        const marks = this.items.flatMap(item => 'mark' in item ? [item.mark] : []);
+        this.items = [];
+        this.queuedBytes = 0;
+        this.clockStartedAt = Date.now();
+        this.releasedMs = 0;
+        this.stop();
+        return marks;
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private start() {
+        if (!this.timer)
+            this.timer = setInterval(() => this.release(), this.frameMs);
+        this.release();
+    }
+
+    private release() {
+        const now = Date.now();
+        // After an underrun playback restarts from now rather than catching up.
+        if (this.clockStartedAt + this.releasedMs < now) {
+            this.clockStartedAt = now;
+            this.releasedMs = 0;
+        }
+
+        while (this.items.length) {
+            const item = this.items[0];
+            if ('mark' in item) {
+                this.items.shift();
+                this.onMark?.(item.mark);
+                continue;
+            }
+            if (this.clockStartedAt + this.releasedMs - now >= this.leadMs)
+                return;
+
+            this.items.shift();
+            this.queuedBytes -= item.media.length;
+            this.releasedMs += item.media.length / this.bytesPerMs;
+            this.onMedia?.(item.media);
+        }
+
+        this.stop();
+    }
+}
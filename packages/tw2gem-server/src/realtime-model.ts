@@ -0,0 +1,71 @@
+export type RealtimeModelProvider = 'gemini' | 'openai';
+
+export type RealtimeModelState = 'connecting' | 'ready' | 'reconnecting' | 'closed';
+
+export type RealtimeSpeaker = 'caller' | 'agent';
+
+export interface RealtimeToolCall {
+    /** Provider call id; results are matched to calls by it. */
+    id?: string;
+    name: string;
+    args: Record<string, any>;
+}
+
+/** A line of an earlier conversation, replayed into a new session. */
+export interface RealtimeHistoryTurn {
+    speaker: RealtimeSpeaker;
+    text: string;
+}
+
+/** Tokens a model billed for one response, as reported by the provider. */
+export interface RealtimeUsage {
+    inputTokens: number;
+    outputTokens: number;
+    /** The audio share of `inputTokens`; the rest is text. */
+    inputAudioTokens: number;
+    /** The audio share of `outputTokens`; the rest is text. */
+    outputAudioTokens: number;
+}
+
+/**
+ * A speech-to-speech model session for one call. Tw2GemServer only talks to this interface, so any
+ * provider can back a call: audio goes in and out as 16-bit mono PCM at the rates the client
+ * declares, and `StreamingAudioConverter` bridges them to the call's 8 kHz G.711.
+ */
+export interface RealtimeModelClient {
+    readonly provider: RealtimeModelProvider;
+    /** Model the session runs on, e.g. for pricing its usage. */
+    readonly model: string;
+    /** Sample rate of the PCM passed to `sendAudio`. */
+    readonly inputSampleRate: number;
+    /** Sample rate of the PCM delivered to `onAudio`. */
+    readonly outputSampleRate: number;
+    readonly state: RealtimeModelState;
+    readonly isReady: boolean;
+    /** Whether `sendAudio` reaches the model, now or once a reconnection completes. */
+    readonly acceptsAudio: boolean;
+
+    onReady?: () => void;
+    onStateChange?: (state: RealtimeModelState, previous: RealtimeModelState) => void;
+    /** Agent speech as raw little-endian PCM bytes at `outputSampleRate`. */
+    onAudio?: (pcm: Buffer) => void;
+    onTranscript?: (speaker: RealtimeSpeaker, text: string) => void;
+    /** The caller barged in; audio already delivered for the current turn should be dropped. */
+    onInterrupted?: () => void;
+    onTurnComplete?: () => void;
+    onToolCall?: (calls: RealtimeToolCall[]) => void;
+    /** Calls the model no longer wants results for. */
+    onToolCallCancellation?: (ids: string[]) => void;
+    /** Token usage of a response, once per report; reports add up to the session's usage. */
+    onUsage?: (usage: RealtimeUsage) => void;
+    onClose?: () => void;
+    onError?: (error: unknown) => void;
+
+    connect(): void;
+    sendAudio(pcm: Int16Array): void;
+    sendText(text: string): void;
+    sendToolResult(call: RealtimeToolCall, result: object): void;
+    /** Seeds the session with an earlier conversation as context; with a `prompt`, the model answers it next. */
+    sendHistory(turns: RealtimeHistoryTurn[], prompt?: string): void;
+    close(): void;
+}
@@ -0,0 +1,52 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CallRecorder } from './call-recorder.js';
+import { LocalRecordingStorage, RecordingService } from './recording-service.js';
+
+describe('RecordingService', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'tw2gem-recordings-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function recordedCall(): CallRecorder {
+    const recorder = new CallRecorder(8000, Date.now());
+    recorder.writeCaller(new Int16Array(800).fill(1000), 0);
+    return recorder;
+  }
+
+  it('files recordings under the profile and stores their path', async () => {
+    const service = new RecordingService({ enabled: true, storage: new LocalRecordingStorage(directory) });
+
+    const url = await service.saveRecording('call-1', recordedCall(), 'user-1');
+
+    expect(url).toBe('user-1/call-1.wav');
+    const wav = await readFile(join(directory, 'user-1', 'call-1.wav'));
+    expect(wav.subarray(0, 4).toString()).toBe('RIFF');
+  });
+
+  it('stores a URL when the directory is served over HTTP', async () => {
+    const service = new RecordingService({ storage: new LocalRecordingStorage(directory, 'https://cdn.example.com/recordings/') });
+
+    expect(await service.saveRecording('call-1', recordedCall(), 'user-1'))
+      .toBe('https://cdn.example.com/recordings/user-1/call-1.wav');
+  });
+
+  it('skips calls with no audio', async () => {
+    const service = new RecordingService({ storage: new LocalRecordingStorage(directory) });
+
+    expect(await service.saveRecording('call-1', new CallRecorder(8000, Date.now()), 'user-1')).toBeUndefined();
+  });
+
+  it('follows `enabled` without Supabase, where there is no profile flag', async () => {
+    expect(await new RecordingService({ enabled: true }).isRecordingEnabled('user-1')).toBe(true);
+    expect(await new RecordingService().isRecordingEnabled('user-1')).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { CallRecorder } from './call-recorder.js';
+
+export const DEFAULT_RECORDING_DIRECTORY = 'recordings';
+export const DEFAULT_RECORDING_BUCKET = 'call-recordings';
+const DEFAULT_SIGNED_URL_EXPIRY_SECONDS = 600;
+
+export interface RecordingStorage {
+  /**
+   * Persists a recording under `path` and returns what to store in `call_logs.recording_url`:
+   * a URL the UI can play, or the object path it signs a short-lived link for.
+   */
+  save(path: string, data: Buffer, contentType: string): Promise<string>
+}
+
+/**
+ * Writes recordings to a local directory. The UI plays `recording_url` in the browser, so when the
+ * directory is served over HTTP, e.g. by a static file server or CDN, pass its `publicBaseUrl`;
+ * without one only the path within the directory is stored.
+ */
+export class LocalRecordingStorage implements RecordingStorage {
+  constructor(
+    private directory: string = DEFAULT_RECORDING_DIRECTORY,
+    private publicBaseUrl?: string
+  ) {}
+
+  async save(path: string, data: Buffer): Promise<string> {
+    const filePath = resolve(join(this.directory, path));
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+
+    return this.publicBaseUrl ? `${this.publicBaseUrl.replace(/\/$/, '')}/${path}` : path;
+  }
+}
+
+/**
+ * Uploads recordings to a private Supabase Storage bucket and returns their object path. Callers'
+ * audio is never public: the UI, or `signedUrl`, hands out links that expire.
+ */
+export class SupabaseRecordingStorage implements RecordingStorage {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseUrl: string, supabaseKey: string, private bucket: string = DEFAULT_RECORDING_BUCKET) {
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  async save(path: string, data: Buffer, contentType: string): Promise<string> {
+    const { error } = await this.supabase.storage
+      .from(this.bucket)
+      .upload(path, data, { contentType, upsert: true });
+    if (error) {
+      throw error;
+    }
+    return path;
+  }
+
+  /** A link to a saved recording that stops working after `expiresInSeconds`. */
+  async signedUrl(path: string, expiresInSeconds: number = DEFAULT_SIGNED_URL_EXPIRY_SECONDS): Promise<string> {
+    const { data, error } = await this.supabase.storage
+      .from(this.bucket)
+      .createSignedUrl(path, expiresInSeconds);
+    if (error) {
+      throw error;
+    }
+    return data.signedUrl;
+  }
+}
+
+export interface RecordingOptions {
+  /**
+   * Forces recording on or off for every call. When omitted, the caller's profile
+   * `call_recording_enabled` flag decides; without Supabase there is no flag and calls are not recorded.
+   */
+  enabled?: boolean
+  /**
+   * Where recordings go. Defaults to the private `call-recordings` Supabase Storage bucket when
+   * Supabase is configured, and to a `recordings` directory on the local filesystem otherwise.
+   */
+  storage?: RecordingStorage
+}
+
+export class RecordingService {
+  private supabase?: SupabaseClient;
+  private storage: RecordingStorage;
+
+  constructor(private options: RecordingOptions = {}, supabaseUrl?: string, supabaseKey?: string) {
+    if (supabaseUrl && supabaseKey) {
+      this.supabase = createClient(supabaseUrl, supabaseKey);
+    }
+    this.storage = options.storage || (supabaseUrl && supabaseKey
+      ? new SupabaseRecordingStorage(supabaseUrl, supabaseKey)
+      : new LocalRecordingStorage());
+  }
+
+  async isRecordingEnabled(userId?: string): Promise<boolean> {
+    if (this.options.enabled !== undefined) {
+      return this.options.enabled;
+    }
+    if (!this.supabase || !userId) {
+      return false;
+    }
+
+    try {
+      const { data: profile, error } = await this.supabase
+        .from('profiles')
+        .select('call_recording_enabled')
+        .eq('id', userId)
+        .single();
+
+      if (error) {
+        console.error('Error loading recording preference:', error);
+        return false;
+      }
+      return !!profile?.call_recording_enabled;
+    } catch (error) {
+      console.error('Error checking recording preference:', error);
+      return false;
+    }
+  }
+
+  // Write the recording to storage and return its `recording_url`. Recordings are filed under the
+  // profile id, which the bucket's read policy matches against the signed-in user.
+  async saveRecording(callId: string, recorder: CallRecorder, userId?: string): Promise<string | undefined> {
+    if (recorder.durationMs === 0) {
+      return undefined;
+    }
+
+    try {
+      const path = userId ? `${userId}/${callId}.wav` : `${callId}.wav`;
+      const url = await this.storage.save(path, recorder.toWav(), 'audio/wav');
+      console.log(`Saved call recording for ${callId}: ${url}`);
+      return url;
+    } catch (error) {
+      console.error('Error saving call recording:', error);
+      return undefined;
+    }
+  }
+}
@@ -1,32 +1,266 @@
 import { TwilioWebSocket } from '@tw2gem/twilio-server';
+import { AudioProcessingChain, AudioProcessingOptions, DtmfDetector, DtmfDetectorOptions, DtmfGeneratorOptions, StreamingAudioConverter, VoiceActivityDetector, VoiceActivityDetectorOptions, VoiceActivityFrame } from '@tw2gem/audio-converter';
+import { BidiGenerateContentSetup, GeminiLiveClientOptions } from '@tw2gem/gemini-live-client';
 import { ServerOptions } from 'ws';
+import { CallRecorder } from './call-recorder.js';
+import { RecordingOptions } from './recording-service.js';
+import { AudioClip, PlaybackMixer } from './playback-mixer.js';
+import { AgentPlaybackTracker, AgentTurnPlayback } from './agent-playback.js';
+import { PlayoutQueue } from './playout-queue.js';
+import { Tw2GemStreamParameterName, Tw2GemStreamParameters } from './stream-parameters.js';
+import { AgentEscalation, ResolvedAgentConfig } from './agent-config-resolver.js';
+import { CallTranscript, TranscriptSegment } from './call-transcript.js';
+import { RealtimeModelClient, RealtimeModelState } from './realtime-model.js';
+import { OpenAIRealtimeModelOptions } from './openai-realtime-model.js';
+import { CallUsage, ModelPricing } from './call-usage.js';
+import { AdmissionRejection } from './admission-service.js';
+import { CallLevelMeter } from './audio-level-service.js';
 
 export class Tw2GemSocket extends TwilioWebSocket {
     twilioStreamSid?: string;
-    geminiClient?: any; // Using any type since we're now using the official client
+    /** When the stream's start event arrived; Twilio's media timestamps count from here. */
+    streamStartedAt?: number;
+    /** The call's model session, Gemini Live or another provider picked by the agent. */
+    realtimeModel?: RealtimeModelClient;
+    audioConverter?: StreamingAudioConverter;
+    voiceActivity?: VoiceActivityDetector;
+    silenceTimeoutFired?: boolean;
+    /** Caller and agent levels since they were last broadcast to the Live Calls page. */
+    levelMeter?: CallLevelMeter;
+    levelTimer?: NodeJS.Timeout;
+    recorder?: CallRecorder;
+    callTranscript?: CallTranscript;
+    outboundAudio?: AudioProcessingChain;
+    comfortNoiseTimer?: NodeJS.Timeout;
+    playout?: PlayoutQueue;
+    dtmfDetector?: DtmfDetector;
+    lastDtmf?: { digit: string, source: Tw2GemDtmfSource, at: number };
+    /** In-band digits are ignored until then, so the agent's own tones are not heard as the caller's. */
+    dtmfSendingUntil?: number;
+    playbackMixer?: PlaybackMixer;
+    agentPlayback?: AgentPlaybackTracker;
+    /** Model setup and agent details resolved for this call. */
+    agentConfig?: ResolvedAgentConfig;
+    /** Setup the current model session was opened with. */
+    modelSetup?: BidiGenerateContentSetup;
+    /** Sessions this call moved to after losing one, oldest first. */
+    modelFailovers?: Tw2GemModelFailover[];
+    reconnectionTimer?: NodeJS.Timeout;
+    /** Set once the agent has handed the caller over. */
+    escalation?: Tw2GemEscalation;
+    /** Tokens and audio of the call's model sessions. */
+    usage?: CallUsage;
+    /** Minutes already added to the profile's `minutes_used`. */
+    chargedMinutes?: number;
+    minuteTimer?: NodeJS.Timeout;
+    /** Set while the call's admission is being checked, so concurrent calls count it. */
+    admitting?: boolean;
+    /** The profile's `monthly_minute_limit`, when the call was admitted against one. */
+    minuteLimit?: number;
+    /** The call is being wound down because the profile ran out of minutes. */
+    outOfMinutes?: boolean;
+    minuteLimitTimer?: NodeJS.Timeout;
+    leaseTimer?: NodeJS.Timeout;
     
     // Call tracking properties
     callId?: string;
+    callSid?: string;
+    accountSid?: string;
+    streamParameters?: Tw2GemStreamParameters;
     callStartTime?: string;
     callEnded?: boolean;
     userId?: string;
     agentId?: string;
+    campaignId?: string;
+    leadId?: string;
     phoneNumberFrom?: string;
     phoneNumberTo?: string;
     direction?: 'inbound' | 'outbound';
     transcript?: string;
     functionCalls?: any[];
+    /** Function calls still running, by model call id, so a tool call cancellation can abort them. */
+    pendingFunctionCalls?: Map<string, AbortController>;
     customerSatisfaction?: number;
 }
 
 export class Tw2GemServerOptions {
     serverOptions!: ServerOptions;
-    geminiOptions!: any; // Using any type since we're now using the official client
+    geminiOptions!: GeminiLiveClientOptions;
+    /** Server, key and defaults for agents whose `model_provider` is `openai`; the session comes from the agent's setup. */
+    openaiOptions?: Omit<OpenAIRealtimeModelOptions, 'setup'>;
     supabaseUrl?: string;
     supabaseKey?: string;
+    voiceActivity?: Tw2GemVoiceActivityOptions;
+    audioLevels?: Tw2GemAudioLevelOptions;
+    recording?: RecordingOptions;
+    /** Default DSP for agent audio; an agent's `audio_settings` override it per call. */
+    outboundAudio?: AudioProcessingOptions;
+    dtmf?: Tw2GemDtmfOptions;
+    playback?: Tw2GemPlaybackOptions;
+    /** Custom `<Parameter>`s a stream must carry; streams without them are closed. Defaults to agent_id and user_id. */
+    requiredStreamParameters?: Tw2GemStreamParameterName[];
+    /** How long agent, profile and campaign rows are reused across calls. Defaults to 60s. */
+    agentConfigCacheTtlMs?: number;
+    /**
+     * Forces model transcription on or off for every call. When omitted, the profile's
+     * `transcription_enabled` flag decides, and calls are transcribed if it is not set.
+     */
+    transcription?: boolean;
+    failover?: Tw2GemFailoverOptions;
+    usage?: Tw2GemUsageOptions;
+    admission?: Tw2GemAdmissionOptions;
 }
 
+/**
+ * Plan enforcement. Before a call is connected, its profile's direction permissions, monthly
+ * minutes and concurrent call caps (the profile's and the agent's) are checked. Admitted calls are
+ * warned when they enter the profile's last minute and wound down before it runs out.
+ */
+export interface Tw2GemAdmissionOptions {
+    /** Defaults to true. */
+    enabled?: boolean;
+    /** Names this server's calls in `call_logs.server_id`; must be unique per running process. Defaults to `<hostname>:<pid>`. */
+    serverId?: string;
+    /** Played to rejected callers before hanging up. A `.wav` or raw `.ulaw`/`.alaw` file path, or a loaded clip. */
+    overLimitMessage?: string | AudioClip;
+    /** How long the agent gets to say goodbye once the minutes are used up. Defaults to 10000. */
+    endGraceMs?: number;
+}
+
+/**
+ * Usage accounting. Each started minute of a call is added to the profile's `minutes_used` as it
+ * starts, and the call's tokens, audio and estimated cost go to `call_logs` and `usage_records`.
+ */
+export interface Tw2GemUsageOptions {
+    /** Defaults to true. Tokens are still counted for `onUsage` and webhooks when off. */
+    billing?: boolean;
+    /** USD per million tokens by model name; defaults to `DEFAULT_MODEL_PRICING`. */
+    pricing?: Record<string, ModelPricing>;
+}
+
+/**
+ * Moving a call to another Gemini model when its session is lost mid-call, instead of hanging up.
+ * The new session gets the recent transcript as context and picks the conversation up.
+ */
+export interface Tw2GemFailoverOptions {
+    /** Defaults to true. */
+    enabled?: boolean;
+    /** Failover chain for profiles without `gemini_fallback_models`. */
+    models?: string[];
+    /** Failovers allowed per call. Defaults to 2. */
+    maxFailovers?: number;
+    /** How much of the transcript, in characters, the new session is given. Defaults to 6000. */
+    historyMaxChars?: number;
+    /** A session still reconnecting after this long is treated as lost. Defaults to 5000. */
+    reconnectTimeoutMs?: number;
+}
+
+export interface Tw2GemModelFailover {
+    at: string;
+    fromModel?: string;
+    toModel: string;
+    reason: string;
+}
+
+export interface Tw2GemVoiceActivityOptions extends VoiceActivityDetectorOptions {
+    /** Caller silence after which `onSilenceTimeout` fires, once per silent stretch. */
+    silenceTimeoutMs?: number;
+}
+
+/** Live caller and agent levels for the Live Calls page, broadcast over Supabase Realtime. */
+export interface Tw2GemAudioLevelOptions {
+    /** Defaults to true. Needs `supabaseUrl` and `supabaseKey`. */
+    enabled?: boolean;
+    /** How often each call's levels are sent. Defaults to 250 ms. */
+    intervalMs?: number;
+}
+
+export interface Tw2GemDtmfOptions {
+    /** Detect key presses in the caller audio, for trunks that don't send them out of band. Defaults to true. */
+    inBandDetection?: boolean;
+    /** Tell Gemini about each digit the caller presses. Defaults to true. */
+    forwardToGemini?: boolean;
+    detector?: DtmfDetectorOptions;
+    generator?: DtmfGeneratorOptions;
+}
+
+export interface Tw2GemPlaybackOptions {
+    /** Looped while function calls run. A `.wav` or raw `.ulaw`/`.alaw` file path, or a loaded clip. */
+    holdMusic?: string | AudioClip;
+    /** Played once while the Gemini session is being set up. */
+    connectingPrompt?: string | AudioClip;
+    /** Hold music only starts if function calls are still running after this long. Defaults to 700 ms. */
+    holdMusicDelayMs?: number;
+    volume?: number;
+}
+
+export type Tw2GemDtmfSource = 'twilio' | 'inband';
+
+/** Model session events. `onReady`, `onClose` and `onStateChange` fire for every provider; the rest are Gemini's. */
 export class Tw2GemGeminiEvents {
     onReady?: (socket: Tw2GemSocket) => void;
     onClose?: (socket: Tw2GemSocket) => void;
+    /** Gemini will drop the connection in `timeLeftMs`; the session resumes on a new one when it has a handle. */
+    onGoAway?: (socket: Tw2GemSocket, timeLeftMs: number) => void;
+    /** The session moved to a new connection; `resumed` is false if it had to start over without context. */
+    onResumed?: (socket: Tw2GemSocket, resumed: boolean) => void;
+    onStateChange?: (socket: Tw2GemSocket, state: RealtimeModelState, previous: RealtimeModelState) => void;
+    /** The call lost its session and continues on `failover.toModel`. */
+    onFailover?: (socket: Tw2GemSocket, failover: Tw2GemModelFailover) => void;
+}
+
+export class Tw2GemVoiceActivityEvents {
+    onSpeechStart?: (socket: Tw2GemSocket) => void;
+    onSpeechEnd?: (socket: Tw2GemSocket, durationMs: number) => void;
+    onLevel?: (socket: Tw2GemSocket, frame: VoiceActivityFrame) => void;
+    onSilenceTimeout?: (socket: Tw2GemSocket, silenceMs: number) => void;
+}
+
+export class Tw2GemDtmfEvents {
+    onDigit?: (socket: Tw2GemSocket, digit: string, source: Tw2GemDtmfSource) => void;
+    onDigitsSent?: (socket: Tw2GemSocket, digits: string) => void;
+}
+
+export class Tw2GemAgentPlaybackEvents {
+    /** The caller talked over the agent; `playback` says how much of the cut-off turn they heard. */
+    onAgentInterrupted?: (socket: Tw2GemSocket, playback: AgentTurnPlayback) => void;
+    /** Twilio has played every bit of a finished agent turn. */
+    onAgentTurnPlayed?: (socket: Tw2GemSocket, playback: AgentTurnPlayback) => void;
+    /** All agent audio has played, e.g. so the call can be hung up or transferred after a goodbye. */
+    onPlaybackDrained?: (socket: Tw2GemSocket) => void;
+}
+
+export class Tw2GemUsageEvents {
+    /** The model reported tokens; `usage` holds the call's running totals and cost. */
+    onUsage?: (socket: Tw2GemSocket, usage: CallUsage) => void;
+    /** A minute of the call was charged to the profile; `minutes` is the call's total so far. */
+    onMinuteCharged?: (socket: Tw2GemSocket, minutes: number) => void;
+}
+
+export class Tw2GemAdmissionEvents {
+    /** The call was turned away before it was connected. */
+    onCallRejected?: (socket: Tw2GemSocket, rejection: AdmissionRejection) => void;
+    /** The call entered the profile's last included minute. */
+    onMinutesLow?: (socket: Tw2GemSocket) => void;
+    /** The profile's minutes are used up; the call ends after `endGraceMs`. */
+    onOutOfMinutes?: (socket: Tw2GemSocket) => void;
+}
+
+/** The agent handing its caller over, as asked for through the `escalate_call` function. */
+export interface Tw2GemEscalation extends AgentEscalation {
+    reason: string;
+}
+
+export class Tw2GemEscalationEvents {
+    /**
+     * The agent escalated the call, after telling the caller. Transfer it here, e.g. by redirecting the
+     * Twilio call to a `<Dial>` of `escalation.phoneNumber`. Throwing tells the model the transfer failed,
+     * and without a handler the model is told escalation is unavailable.
+     */
+    onEscalate?: (socket: Tw2GemSocket, escalation: Tw2GemEscalation) => void | Promise<void>;
+}
+
+export class Tw2GemTranscriptEvents {
+    /** A transcript segment was added or changed; partial segments have `final: false`. */
+    onSegment?: (socket: Tw2GemSocket, segment: TranscriptSegment) => void;
 }
\ No newline at end of file
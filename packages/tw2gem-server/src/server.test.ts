@@ -0,0 +1,98 @@
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketServer } from 'ws';
+import { DtmfGenerator, encodeG711 } from '@tw2gem/audio-converter';
+import { MockGeminiLiveServer } from '@tw2gem/gemini-live-client/testing';
+import { FakeTwilioClient } from '@tw2gem/twilio-server/testing';
+import { AgentConfigResolver } from './agent-config-resolver.js';
+import { RecordingStorage } from './recording-service.js';
+import { Tw2GemServerOptions, Tw2GemSocket } from './server.dto.js';
+import { Tw2GemServer } from './server.js';
+
+const SETUP = { model: 'models/mock', responseModalities: ['AUDIO' as const] };
+
+const discardRecordings: RecordingStorage = { save: async (path) => path };
+
+describe('Tw2GemServer', () => {
+    let server: Tw2GemServer | undefined;
+    let twilio: FakeTwilioClient | undefined;
+    let silentGemini: WebSocketServer | undefined;
+    let gemini: MockGeminiLiveServer | undefined;
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        twilio?.hangUp();
+        await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+        silentGemini?.clients.forEach(client => client.terminate());
+        await new Promise(resolve => silentGemini ? silentGemini.close(resolve) : resolve(undefined));
+        await gemini?.close();
+        server = twilio = silentGemini = gemini = undefined;
+    });
+
+    // A Gemini endpoint that accepts the connection but never completes the setup
+    async function startSilentGemini(): Promise<string> {
+        silentGemini = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+        await new Promise(resolve => silentGemini!.once('listening', resolve));
+        return `ws://127.0.0.1:${(silentGemini.address() as AddressInfo).port}`;
+    }
+
+    async function startServer(options: Omit<Tw2GemServerOptions, 'serverOptions'>): Promise<string> {
+        server = new Tw2GemServer({ serverOptions: { port: 0 }, ...options });
+        await new Promise(resolve => server!.once('listening', resolve));
+        return `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    it('records and analyses caller audio that arrives before the model is ready', async () => {
+        const url = await startServer({
+            geminiOptions: { server: { url: await startSilentGemini() }, setup: SETUP },
+            recording: { enabled: true, storage: discardRecordings }
+        });
+        const digits: string[] = [];
+        let call: Tw2GemSocket | undefined;
+        server!.onNewCall = (socket) => call = socket;
+        server!.dtmf.onDigit = (_, digit, source) => digits.push(`${digit}:${source}`);
+
+        twilio = new FakeTwilioClient({ customParameters: { agent_id: 'agent-1', user_id: 'user-1' } });
+        await twilio.connect(url);
+        await twilio.waitFor(() => !!call?.audioConverter);
+        await twilio.sendAudio(Buffer.from(encodeG711(new DtmfGenerator().generate('5'), 'mulaw')));
+        await twilio.sendSilence(100);
+
+        await twilio.waitFor(() => digits.length > 0);
+        expect(digits).toEqual(['5:inband']);
+        expect(call?.realtimeModel?.acceptsAudio).toBe(false);
+        expect(call?.recorder?.durationMs).toBeGreaterThan(0);
+    });
+
+    describe('greeting', () => {
+        const GREETING = 'Thanks for calling Acme Plumbing, how can I help?';
+
+        // Runs a call whose agent has a greeting and returns the texts the model was sent once it was ready
+        async function promptsForCall(direction: string): Promise<string[]> {
+            gemini = new MockGeminiLiveServer();
+            await gemini.listen();
+            vi.spyOn(AgentConfigResolver.prototype, 'resolve').mockImplementation(async (setup) => ({ provider: 'gemini', setup, greeting: GREETING }));
+            const url = await startServer({ geminiOptions: { server: { url: gemini.url }, setup: SETUP } });
+            let ready = false;
+            server!.geminiLive.onReady = () => ready = true;
+
+            twilio = new FakeTwilioClient({ customParameters: { agent_id: 'agent-1', user_id: 'user-1', direction } });
+            await twilio.connect(url);
+            await twilio.waitFor(() => ready);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            return gemini.received.flatMap(request => request.realtimeInput?.text !== undefined ? [request.realtimeInput.text] : []);
+        }
+
+        it('opens inbound calls with the agent greeting', async () => {
+            const prompts = await promptsForCall('inbound');
+
+            expect(prompts).toHaveLength(1);
+            expect(prompts[0]).toContain(GREETING);
+        });
+
+        it('leaves outbound calls to the callee to speak first', async () => {
+            expect(await promptsForCall('outbound-api')).toEqual([]);
+        });
+    });
+});
@@ -1,19 +1,96 @@
-import { TwilioMediaEvent, TwilioServerOptions, TwilioWebSocketServer } from '@tw2gem/twilio-server';
-import { Tw2GemGeminiEvents, Tw2GemServerOptions, Tw2GemSocket } from './server.dto.js';
-import { AudioConverter } from '@tw2gem/audio-converter';
+import { hostname } from 'os';
+import { TwilioEvent, TwilioMediaEvent, TwilioProtocolError, TwilioServerOptions, TwilioWebSocketServer } from '@tw2gem/twilio-server';
+import { Tw2GemAdmissionEvents, Tw2GemAdmissionOptions, Tw2GemAgentPlaybackEvents, Tw2GemAudioLevelOptions, Tw2GemDtmfEvents, Tw2GemDtmfOptions, Tw2GemDtmfSource, Tw2GemEscalation, Tw2GemEscalationEvents, Tw2GemGeminiEvents, Tw2GemModelFailover, Tw2GemPlaybackOptions, Tw2GemServerOptions, Tw2GemSocket, Tw2GemTranscriptEvents, Tw2GemUsageEvents, Tw2GemUsageOptions, Tw2GemVoiceActivityEvents } from './server.dto.js';
+import { AudioConverter, AudioProcessingChain, AudioProcessingOptions, decodeG711, DtmfDetector, DtmfGenerator, StreamingAudioConverter, VoiceActivityDetector } from '@tw2gem/audio-converter';
 import { WebhookService } from './webhook-service.js';
-import { FunctionCallHandler } from './function-handler.js';
+import { FunctionCallHandler, FunctionCallResponse } from './function-handler.js';
+import { RecordingService } from './recording-service.js';
+import { UsageService } from './usage-service.js';
+import { AdmissionService } from './admission-service.js';
+import { CallUsage } from './call-usage.js';
+import { AudioLevelService, CallLevelMeter } from './audio-level-service.js';
+import { CallRecorder } from './call-recorder.js';
+import { CallTranscript } from './call-transcript.js';
+import { AgentSettingsService } from './agent-settings-service.js';
+import { AgentConfigResolver, AgentEscalation, ESCALATE_CALL_FUNCTION, ResolvedAgentConfig, toModelName } from './agent-config-resolver.js';
+import { BidiGenerateContentSetup, FunctionDeclaration } from '@tw2gem/gemini-live-client';
+import { RealtimeHistoryTurn, RealtimeModelClient, RealtimeModelState, RealtimeToolCall } from './realtime-model.js';
+import { GeminiRealtimeModel } from './gemini-realtime-model.js';
+import { OpenAIRealtimeModel } from './openai-realtime-model.js';
+import { AudioClip, Playback, PlaybackMixer, PlaybackOptions } from './playback-mixer.js';
+import { AgentPlaybackTracker } from './agent-playback.js';
+import { PlayoutQueue } from './playout-queue.js';
+import { parseStreamParameters, Tw2GemStreamParameters } from './stream-parameters.js';
+
+const DEFAULT_OUTBOUND_AUDIO: AudioProcessingOptions = { dcBlocker: true, gainControl: true };
+const COMFORT_NOISE_FRAME_MS = 20;
+const DEFAULT_AUDIO_LEVEL_INTERVAL_MS = 250;
+// A key press reported both out of band and in the audio within this window counts once
+const DTMF_DUPLICATE_WINDOW_MS = 300;
+const HOLD_MUSIC_DELAY_MS = 700;
+// Long calls keep the most recent context instead of hitting the session's context limit
+const DEFAULT_CONTEXT_WINDOW_COMPRESSION = { slidingWindow: {} };
+const DEFAULT_FAILOVER_MODELS = ['gemini-2.0-flash-live-001', 'gemini-live-2.5-flash-preview'];
+const DEFAULT_MAX_FAILOVERS = 2;
+const DEFAULT_FAILOVER_HISTORY_CHARS = 6000;
+const DEFAULT_FAILOVER_RECONNECT_TIMEOUT_MS = 5000;
+const BILLING_MINUTE_MS = 60000;
+const CALL_LEASE_RENEW_MS = 30000;
+const DEFAULT_LIMIT_END_GRACE_MS = 10000;
+// Out-of-minutes calls close this long before their last minute ends, so no further minute is started
+const MINUTE_LIMIT_MARGIN_MS = 1000;
+const OVER_LIMIT_MESSAGE_TAIL_MS = 500;
+const MINUTES_LOW_PROMPT = '[This account has less than a minute of calling time left. Let the caller know and start wrapping up the call.]';
+const OUT_OF_MINUTES_PROMPT = '[This account is out of calling minutes. Tell the caller the call has to end now, and say goodbye.]';
+const greetingPrompt = (greeting: string) => `[The call has just connected. Open it by greeting the caller with: "${greeting}"]`;
+const FAILOVER_PROMPT = '[The call briefly lost its connection to you and is now reconnected. Carry on the conversation from where it left off, without greeting the caller again or starting over.]';
 
 export class Tw2GemServer extends TwilioWebSocketServer {
 
     public onNewCall?: (socket: Tw2GemSocket) => void;
+    public onStreamRejected?: (socket: Tw2GemSocket, reason: string) => void;
+    public onProtocolError?: (socket: Tw2GemSocket, error: TwilioProtocolError) => void;
+    public onUnknownEvent?: (socket: Tw2GemSocket, event: TwilioEvent & Record<string, unknown>) => void;
     public geminiLive = new Tw2GemGeminiEvents();
+    public voiceActivity = new Tw2GemVoiceActivityEvents();
+    public dtmf = new Tw2GemDtmfEvents();
+    public agentPlayback = new Tw2GemAgentPlaybackEvents();
+    public transcript = new Tw2GemTranscriptEvents();
+    public usage = new Tw2GemUsageEvents();
+    public admission = new Tw2GemAdmissionEvents();
+    public escalation = new Tw2GemEscalationEvents();
     private webhookService: WebhookService;
     private functionHandler: FunctionCallHandler;
+    private recordingService: RecordingService;
+    private usageService: UsageService;
+    private usageOptions: Tw2GemUsageOptions;
+    private admissionService: AdmissionService;
+    private admissionOptions: Tw2GemAdmissionOptions;
+    private audioLevelService: AudioLevelService;
+    private audioLevelOptions: Tw2GemAudioLevelOptions;
+    private agentSettingsService: AgentSettingsService;
+    private agentConfigResolver: AgentConfigResolver;
+    private dtmfOptions: Tw2GemDtmfOptions;
+    private dtmfGenerator: DtmfGenerator;
+    private playbackOptions: Tw2GemPlaybackOptions;
+    private transcription?: boolean;
+    private holdMusic?: Promise<AudioClip | undefined>;
+    private connectingPrompt?: Promise<AudioClip | undefined>;
+    private overLimitMessage?: Promise<AudioClip | undefined>;
 
     constructor(options: Tw2GemServerOptions) {
         super(options.serverOptions);
         const twilioServerOptions = <TwilioServerOptions>options.serverOptions;
+        this.dtmfOptions = options.dtmf || {};
+        this.dtmfGenerator = new DtmfGenerator(this.dtmfOptions.generator);
+        this.playbackOptions = options.playback || {};
+        this.transcription = options.transcription;
+        this.usageOptions = options.usage || {};
+        this.admissionOptions = options.admission || {};
+        this.audioLevelOptions = options.audioLevels || {};
+        this.holdMusic = this.loadClip(this.playbackOptions.holdMusic);
+        this.connectingPrompt = this.loadClip(this.playbackOptions.connectingPrompt);
+        this.overLimitMessage = this.loadClip(this.admissionOptions.overLimitMessage);
         
         // Initialize webhook service
         this.webhookService = new WebhookService(
@@ -21,6 +98,41 @@ export class Tw2GemServer extends TwilioWebSocketServer {
             options.supabaseKey
         );
 
+        this.recordingService = new RecordingService(
+            options.recording,
+            options.supabaseUrl,
+            options.supabaseKey
+        );
+
+        this.usageService = new UsageService(
+            options.supabaseUrl,
+            options.supabaseKey
+        );
+
+        this.admissionService = new AdmissionService(
+            this.admissionOptions.serverId || `${hostname()}:${process.pid}`,
+            options.supabaseUrl,
+            options.supabaseKey
+        );
+        if (this.admissionOptions.enabled !== false)
+            this.admissionService.releaseOrphanedCalls();
+
+        this.audioLevelService = new AudioLevelService(
+            options.supabaseUrl,
+            options.supabaseKey
+        );
+
+        this.agentSettingsService = new AgentSettingsService(
+            options.supabaseUrl,
+            options.supabaseKey
+        );
+
+        this.agentConfigResolver = new AgentConfigResolver(
+            options.supabaseUrl,
+            options.supabaseKey,
+            options.agentConfigCacheTtlMs
+        );
+
         // Initialize function call handler
         this.functionHandler = new FunctionCallHandler(
             options.supabaseUrl,
@@ -29,104 +141,702 @@ export class Tw2GemServer extends TwilioWebSocketServer {
 
         twilioServerOptions.handlers = {
             onStart: (socket: Tw2GemSocket, event) => {
-                this.onNewCall?.(socket);
-
-                // Generate call ID and store call metadata
-                const callId = `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-                socket.callId = callId;
-                socket.callStartTime = new Date().toISOString();
-
-                // Send call started webhook
-                this.webhookService.processCallEvent('call.started', {
-                    call_id: callId,
-                    phone_number_from: socket.phoneNumberFrom,
-                    phone_number_to: socket.phoneNumberTo,
-                    agent_id: socket.agentId,
-                    direction: socket.direction,
-                    status: 'in_progress',
-                    timestamp: socket.callStartTime
-                }, socket.userId);
-
-                const geminiClient = {} as any; // Using any type since we're now using the official client directly in server.js
-                socket.twilioStreamSid = event.streamSid;
-
-                geminiClient.onReady = () => {
-                    socket.geminiClient = geminiClient;
-                    this.geminiLive.onReady?.(socket);
-                };
-
-                geminiClient.onClose = () => {
-                    this.handleCallEnd(socket, 'completed');
-                    socket.close();
-                    this.geminiLive.onClose?.(socket);
-                };
-
-                geminiClient.onError = (error: any) => {
-                    this.handleCallEnd(socket, 'failed');
-                    this.onError?.(socket, error);
-                };
+                const streamParameters = parseStreamParameters(event.start, options.requiredStreamParameters);
+                if (!streamParameters.ok) {
+                    console.warn(`Rejecting stream ${event.streamSid}: ${streamParameters.error}`);
+                    this.onStreamRejected?.(socket, streamParameters.error);
+                    socket.close(1008, streamParameters.error);
+                    return;
+                }
+                this.applyStreamParameters(socket, streamParameters.parameters);
 
-                geminiClient.onServerContent = (serverContent: any) => {
-                    this.onServerContent?.(socket, serverContent);
-                    this.handleFunctionCalls(socket, serverContent);
-                };
+                socket.twilioStreamSid = event.streamSid;
+                socket.streamStartedAt = Date.now();
+                socket.audioConverter = new StreamingAudioConverter({
+                    codec: AudioConverter.codecFromEncoding(event.start?.mediaFormat?.encoding)
+                });
+                socket.playbackMixer = this.createPlaybackMixer(socket);
+                socket.playout = this.createPlayoutQueue(socket);
 
                 socket.onclose = (event) => {
+                    this.stopComfortNoise(socket);
+                    socket.playbackMixer?.stopAll();
+                    socket.playout?.stop();
                     this.handleCallEnd(socket, 'completed');
-                    if (socket?.geminiClient) {
-                        socket.geminiClient.close();
-                        delete socket.geminiClient;
+                    if (socket?.realtimeModel) {
+                        socket.realtimeModel.close();
+                        delete socket.realtimeModel;
                     }
                     this.onClose?.(socket, event);
                 };
+
+                // Plan limits are checked before the call is set up and connected
+                this.admitCall(socket).then(admitted => {
+                    if (admitted && socket.readyState === socket.OPEN)
+                        this.startCall(socket, options);
+                });
             },
-            onMedia: this.onMedia
+            onMedia: this.onMedia.bind(this),
+            onMark: (socket: Tw2GemSocket, event) => socket.agentPlayback?.markPlayed(event.mark.name),
+            onDtmf: (socket: Tw2GemSocket, event) => this.onDigit(socket, event.dtmf.digit, 'twilio'),
+            onUnknownEvent: (socket: Tw2GemSocket, event) => this.onUnknownEvent?.(socket, event),
+            onProtocolError: (socket: Tw2GemSocket, error) => {
+                console.warn(`Twilio protocol error on call ${socket.callId || 'unknown'}: ${error.message}`);
+                this.onProtocolError?.(socket, error);
+            }
         };
+
+        this.functionHandler.registerFunction({
+            name: 'press_digits',
+            description: 'Press keys on the phone keypad, e.g. to navigate an automated phone menu during an outbound call. Use "w" for a half-second pause.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    digits: { type: 'string', description: 'Keys to press: 0-9, *, #, A-D, and w for a pause' }
+                },
+                required: ['digits']
+            },
+            handler: async (args, context) => this.pressDigits(context.callId, args.digits)
+        });
     }
 
-    public onMedia(socket: Tw2GemSocket, event: TwilioMediaEvent) {
-        if (!socket.geminiClient || event.media?.track !== 'inbound' || !event.media.payload)
+    // Check the profile's plan before connecting: direction permissions, minutes left and concurrent calls
+    private async admitCall(socket: Tw2GemSocket): Promise<boolean> {
+        if (this.admissionOptions.enabled === false)
+            return true;
+
+        socket.admitting = true;
+        const decision = await this.admissionService.admit({
+            userId: socket.userId,
+            agentId: socket.agentId,
+            direction: socket.direction,
+            localProfileCalls: this.countLiveCalls(socket, other => !!socket.userId && other.userId === socket.userId),
+            localAgentCalls: this.countLiveCalls(socket, other => !!socket.agentId && other.agentId === socket.agentId)
+        });
+        socket.admitting = false;
+
+        if (decision.admitted) {
+            socket.minuteLimit = decision.minuteLimit;
+            return true;
+        }
+        console.warn(`Rejecting call ${socket.callSid || socket.twilioStreamSid}: ${decision.message}`);
+        this.admission.onCallRejected?.(socket, decision);
+        this.rejectCall(socket, decision.message);
+        return false;
+    }
+
+    private countLiveCalls(socket: Tw2GemSocket, matches: (other: Tw2GemSocket) => boolean): number {
+        let count = 0;
+        for (const client of this.clients) {
+            const other = <Tw2GemSocket>client;
+            if (other !== socket && (other.admitting || (other.callId && !other.callEnded)) && matches(other))
+                count++;
+        }
+        return count;
+    }
+
+    // Play the over-limit message, if there is one, before hanging up
+    private async rejectCall(socket: Tw2GemSocket, reason: string) {
+        const playback = await this.playClip(socket, this.overLimitMessage);
+        const clip = await this.overLimitMessage;
+        if (!playback || !clip) {
+            socket.close(1008, reason);
             return;
+        }
+        setTimeout(() => socket.close(1008, reason), clip.durationMs + OVER_LIMIT_MESSAGE_TAIL_MS);
+    }
+
+    // Keep the call's lease in call_logs current so other servers count it as live
+    private startCallLease(socket: Tw2GemSocket) {
+        if (this.admissionOptions.enabled === false || !socket.callId || socket.callEnded)
+            return;
+        const callId = socket.callId;
+        this.admissionService.renewLease(callId);
+        socket.leaseTimer = setInterval(() => this.admissionService.renewLease(callId), CALL_LEASE_RENEW_MS);
+    }
+
+    // Set up an admitted call and open its model session
+    private startCall(socket: Tw2GemSocket, options: Tw2GemServerOptions) {
+        this.onNewCall?.(socket);
 
-        const base64MulawAudio = event.media.payload;
-        const base64PCM16k = AudioConverter.convertBase64MuLawToBase64PCM16k(base64MulawAudio);
-        socket.geminiClient.sendRealTime({
-            audio: {
-                mimeType: 'audio/pcm;rate=16000',
-                data: base64PCM16k
+        // Generate call ID and store call metadata
+        const callId = `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        socket.callId = callId;
+        socket.callStartTime = new Date().toISOString();
+
+        // Send call started webhook
+        const callStarted = this.webhookService.processCallEvent('call.started', {
+            call_id: callId,
+            phone_number_from: socket.phoneNumberFrom,
+            phone_number_to: socket.phoneNumberTo,
+            agent_id: socket.agentId,
+            campaign_id: socket.campaignId,
+            lead_id: socket.leadId,
+            call_sid: socket.callSid,
+            direction: socket.direction,
+            status: 'in_progress',
+            timestamp: socket.callStartTime
+        }, socket.userId);
+        this.startUsage(socket);
+        // The call's row exists once the webhook has logged it
+        callStarted.then(() => this.startCallLease(socket));
+
+        socket.voiceActivity = this.createVoiceActivityDetector(socket, options);
+        this.startAudioLevels(socket);
+        if (this.dtmfOptions.inBandDetection !== false) {
+            socket.dtmfDetector = new DtmfDetector(this.dtmfOptions.detector);
+            socket.dtmfDetector.onDigit = (digit) => this.onDigit(socket, digit, 'inband');
+        }
+        socket.agentPlayback = this.createAgentPlaybackTracker(socket);
+        socket.callTranscript = new CallTranscript();
+        socket.callTranscript.onSegment = (segment) => this.transcript.onSegment?.(socket, segment);
+        this.playClip(socket, this.connectingPrompt);
+
+        // Record from the first frame and drop the recorder if the account has recording off
+        socket.recorder = new CallRecorder(8000, socket.streamStartedAt);
+        this.recordingService.isRecordingEnabled(socket.userId).then(enabled => {
+            if (!enabled)
+                delete socket.recorder;
+        });
+
+        // Start with the server defaults and switch to the agent's settings once loaded
+        const outboundDefaults = options.outboundAudio || DEFAULT_OUTBOUND_AUDIO;
+        socket.outboundAudio = new AudioProcessingChain(outboundDefaults);
+        this.startComfortNoise(socket);
+        this.agentSettingsService.getAudioProcessingOptions(socket.agentId, outboundDefaults).then(audioOptions => {
+            if (audioOptions === outboundDefaults || socket.callEnded)
+                return;
+            socket.outboundAudio = new AudioProcessingChain(audioOptions);
+            this.startComfortNoise(socket);
+        });
+
+        this.connectModel(socket, options);
+    }
+
+    // Open this call's model session, with the provider and setup of its agent, profile and campaign
+    private async connectModel(socket: Tw2GemSocket, options: Tw2GemServerOptions) {
+        const config = await this.agentConfigResolver.resolve(options.geminiOptions.setup, {
+            agentId: socket.agentId,
+            userId: socket.userId,
+            campaignId: socket.campaignId
+        }, this.getFunctionDefinitions() as FunctionDeclaration[]);
+        if (socket.callEnded || socket.readyState !== socket.OPEN)
+            return;
+
+        socket.agentConfig = config;
+        const transcribe = this.transcription ?? config.transcriptionEnabled ?? true;
+        if (!transcribe)
+            delete socket.callTranscript;
+
+        const setup = {
+            ...config.setup,
+            contextWindowCompression: config.setup.contextWindowCompression || DEFAULT_CONTEXT_WINDOW_COMPRESSION,
+            ...(transcribe && { inputAudioTranscription: {}, outputAudioTranscription: {} })
+        };
+        // Only the first session of an inbound call greets; a failover session is told to carry on instead
+        const greeting = socket.direction !== 'outbound' ? config.greeting : undefined;
+        this.startModel(socket, setup, options, greeting ? () => socket.realtimeModel?.sendText(greetingPrompt(greeting)) : undefined);
+    }
+
+    // Open a model session for the call and route its events; a failover replaces it with another
+    private startModel(socket: Tw2GemSocket, setup: BidiGenerateContentSetup, options: Tw2GemServerOptions, onFirstReady?: () => void) {
+        const model = this.createRealtimeModel(socket, socket.agentConfig!, setup, options);
+        socket.realtimeModel = model;
+        socket.modelSetup = setup;
+
+        // Resample caller and agent audio to the rates this provider speaks
+        if (socket.audioConverter && (socket.audioConverter.inputRate !== model.inputSampleRate || socket.audioConverter.outputRate !== model.outputSampleRate)) {
+            socket.audioConverter = new StreamingAudioConverter({
+                codec: socket.audioConverter.codec,
+                inputRate: model.inputSampleRate,
+                outputRate: model.outputSampleRate
+            });
+        }
+
+        let wasReady = false;
+        model.onReady = () => {
+            if (!wasReady) {
+                wasReady = true;
+                onFirstReady?.();
             }
+            this.geminiLive.onReady?.(socket);
+        };
+        model.onStateChange = (state, previous) => {
+            if (socket.realtimeModel !== model)
+                return;
+            this.watchReconnection(socket, state, options);
+            this.geminiLive.onStateChange?.(socket, state, previous);
+        };
+
+        model.onClose = () => {
+            if (socket.realtimeModel !== model || this.failOver(socket, options, 'Session closed'))
+                return;
+            this.handleCallEnd(socket, 'completed');
+            socket.close();
+            this.geminiLive.onClose?.(socket);
+        };
+
+        model.onError = (error: any) => {
+            if (socket.realtimeModel !== model || this.failOver(socket, options, error?.message || 'Session error'))
+                return;
+            this.handleCallEnd(socket, 'failed');
+            this.onError?.(socket, error);
+        };
+
+        model.onInterrupted = () => this.interruptAgent(socket);
+        model.onTranscript = (speaker, text) => speaker === 'caller'
+            ? socket.callTranscript?.addCallerText(text)
+            : socket.callTranscript?.addAgentText(text);
+        model.onAudio = (pcm) => this.onModelAudio(socket, pcm);
+        model.onTurnComplete = () => this.onModelTurnComplete(socket);
+        model.onToolCall = (calls) => this.handleToolCall(socket, calls);
+        model.onToolCallCancellation = (ids) => this.cancelFunctionCalls(socket, ids);
+        // A lost session's tokens were still billed, so its reports count too
+        model.onUsage = (usage) => socket.usage?.addTokens(model.model, usage);
+
+        model.connect();
+    }
+
+    // A session stuck reconnecting for too long counts as lost, so the caller isn't left in silence
+    private watchReconnection(socket: Tw2GemSocket, state: RealtimeModelState, options: Tw2GemServerOptions) {
+        clearTimeout(socket.reconnectionTimer);
+        delete socket.reconnectionTimer;
+        if (state !== 'reconnecting')
+            return;
+
+        const timeoutMs = options.failover?.reconnectTimeoutMs ?? DEFAULT_FAILOVER_RECONNECT_TIMEOUT_MS;
+        socket.reconnectionTimer = setTimeout(() => {
+            delete socket.reconnectionTimer;
+            this.failOver(socket, options, `Reconnection took longer than ${timeoutMs}ms`);
+        }, timeoutMs);
+    }
+
+    // Move a call that lost its session to the next model of its chain, briefed with the conversation so far
+    private failOver(socket: Tw2GemSocket, options: Tw2GemServerOptions, reason: string): boolean {
+        const failover = options.failover || {};
+        const setup = socket.modelSetup;
+        if (failover.enabled === false || socket.callEnded || socket.readyState !== socket.OPEN || !setup || socket.agentConfig?.provider !== 'gemini')
+            return false;
+
+        const failovers = socket.modelFailovers ||= [];
+        if (failovers.length >= (failover.maxFailovers ?? DEFAULT_MAX_FAILOVERS))
+            return false;
+
+        const tried = [failovers[0]?.fromModel || setup.model, ...failovers.map(previous => previous.toModel)];
+        const chain = socket.agentConfig.fallbackModels || (failover.models || DEFAULT_FAILOVER_MODELS).map(toModelName);
+        const nextModel = chain.find(model => !tried.includes(model));
+        if (!nextModel)
+            return false;
+
+        const record: Tw2GemModelFailover = { at: new Date().toISOString(), fromModel: setup.model, toModel: nextModel, reason };
+        failovers.push(record);
+        console.warn(`Call ${socket.callId} lost its ${setup.model} session (${reason}), failing over to ${nextModel}`);
+
+        // Results of the lost session's function calls have nowhere to go, and its last turn is over
+        this.cancelFunctionCalls(socket);
+        this.onModelTurnComplete(socket);
+
+        const history = (socket.callTranscript?.recentSegments(failover.historyMaxChars ?? DEFAULT_FAILOVER_HISTORY_CHARS) || [])
+            .map((segment): RealtimeHistoryTurn => segment.speaker === 'tool'
+                ? { speaker: 'agent', text: `[${segment.text}]` }
+                : { speaker: segment.speaker, text: segment.text });
+
+        const lost = socket.realtimeModel;
+        this.startModel(socket, { ...setup, model: nextModel }, options, () => {
+            socket.realtimeModel?.sendHistory(history, FAILOVER_PROMPT);
         });
+        lost?.close();
+
+        this.geminiLive.onFailover?.(socket, record);
+        return true;
+    }
+
+    private createRealtimeModel(socket: Tw2GemSocket, config: ResolvedAgentConfig, setup: BidiGenerateContentSetup, options: Tw2GemServerOptions): RealtimeModelClient {
+        if (config.provider === 'openai') {
+            return new OpenAIRealtimeModel({
+                ...options.openaiOptions,
+                apiKey: config.apiKey || options.openaiOptions?.apiKey,
+                model: config.model || options.openaiOptions?.model,
+                setup
+            });
+        }
+
+        const gemini = new GeminiRealtimeModel({
+            ...options.geminiOptions,
+            server: { ...options.geminiOptions.server, apiKey: config.apiKey || options.geminiOptions.server.apiKey },
+            setup
+        });
+        gemini.onGoAway = (timeLeftMs) => this.geminiLive.onGoAway?.(socket, timeLeftMs);
+        // Caller audio is queued by the client while it reconnects and replayed before this fires
+        gemini.onResumed = (resumed) => this.geminiLive.onResumed?.(socket, resumed);
+        return gemini;
+    }
+
+    // Count the call's tokens and charge each minute to the profile as it starts, keeping its remaining minutes current
+    private startUsage(socket: Tw2GemSocket) {
+        socket.usage = new CallUsage(this.usageOptions.pricing);
+        socket.usage.onChange = (usage) => this.usage.onUsage?.(socket, usage);
+        if (this.usageOptions.billing === false || !socket.userId)
+            return;
+
+        this.chargeMinutes(socket, 1);
+        socket.minuteTimer = setInterval(() => this.chargeMinutes(socket, 1), BILLING_MINUTE_MS);
+    }
+
+    private chargeMinutes(socket: Tw2GemSocket, minutes: number) {
+        if (minutes <= 0)
+            return;
+        socket.chargedMinutes = (socket.chargedMinutes || 0) + minutes;
+        this.usageService.chargeMinutes(socket.userId, minutes).then(minutesUsed => this.checkMinuteLimit(socket, minutesUsed));
+        this.usage.onMinuteCharged?.(socket, socket.chargedMinutes);
+    }
+
+    // Warn when the call enters the profile's last minute and wind it down before that minute is over
+    private checkMinuteLimit(socket: Tw2GemSocket, minutesUsed?: number) {
+        const limit = socket.minuteLimit;
+        if (minutesUsed === undefined || limit === undefined || socket.callEnded || socket.minuteLimitTimer || minutesUsed < limit)
+            return;
+
+        // Other calls of the profile used up the rest
+        if (minutesUsed > limit)
+            return this.endCallOutOfMinutes(socket);
+
+        this.admission.onMinutesLow?.(socket);
+        if (socket.realtimeModel?.isReady)
+            socket.realtimeModel.sendText(MINUTES_LOW_PROMPT);
+        const graceMs = this.admissionOptions.endGraceMs ?? DEFAULT_LIMIT_END_GRACE_MS;
+        const minuteEndsAt = new Date(socket.callStartTime!).getTime() + (socket.chargedMinutes || 0) * BILLING_MINUTE_MS;
+        socket.minuteLimitTimer = setTimeout(() => this.endCallOutOfMinutes(socket), Math.max(0, minuteEndsAt - MINUTE_LIMIT_MARGIN_MS - graceMs - Date.now()));
+    }
+
+    private endCallOutOfMinutes(socket: Tw2GemSocket) {
+        if (socket.callEnded || socket.outOfMinutes)
+            return;
+        socket.outOfMinutes = true;
+        clearTimeout(socket.minuteLimitTimer);
+
+        this.admission.onOutOfMinutes?.(socket);
+        if (socket.realtimeModel?.isReady)
+            socket.realtimeModel.sendText(OUT_OF_MINUTES_PROMPT);
+        socket.minuteLimitTimer = setTimeout(() => {
+            this.handleCallEnd(socket, 'minutes_exhausted');
+            socket.close();
+        }, this.admissionOptions.endGraceMs ?? DEFAULT_LIMIT_END_GRACE_MS);
+    }
+
+    private applyStreamParameters(socket: Tw2GemSocket, parameters: Tw2GemStreamParameters) {
+        socket.streamParameters = parameters;
+        socket.callSid = parameters.callSid;
+        socket.accountSid = parameters.accountSid;
+        socket.agentId = parameters.agentId;
+        socket.userId = parameters.userId;
+        socket.campaignId = parameters.campaignId;
+        socket.leadId = parameters.leadId;
+        socket.phoneNumberFrom = parameters.from;
+        socket.phoneNumberTo = parameters.to;
+        socket.direction = parameters.direction;
+    }
+
+    private createVoiceActivityDetector(socket: Tw2GemSocket, options: Tw2GemServerOptions): VoiceActivityDetector {
+        const { silenceTimeoutMs, ...detectorOptions } = options.voiceActivity || {};
+        const detector = new VoiceActivityDetector(detectorOptions);
+
+        detector.onSpeechStart = () => {
+            socket.silenceTimeoutFired = false;
+            this.voiceActivity.onSpeechStart?.(socket);
+        };
+        detector.onSpeechEnd = (durationMs) => this.voiceActivity.onSpeechEnd?.(socket, durationMs);
+        detector.onLevel = (frame) => {
+            socket.levelMeter?.addCaller(frame);
+            this.voiceActivity.onLevel?.(socket, frame);
+            if (silenceTimeoutMs && !socket.silenceTimeoutFired && frame.silenceMs >= silenceTimeoutMs) {
+                socket.silenceTimeoutFired = true;
+                this.voiceActivity.onSilenceTimeout?.(socket, frame.silenceMs);
+            }
+        };
+
+        return detector;
+    }
+
+    // Broadcast the call's caller and agent levels to the Live Calls page while it lasts
+    private startAudioLevels(socket: Tw2GemSocket) {
+        if (this.audioLevelOptions.enabled === false || !this.audioLevelService.enabled || !socket.userId || !socket.callId)
+            return;
+
+        const userId = socket.userId;
+        const callId = socket.callId;
+        const meter = new CallLevelMeter();
+        socket.levelMeter = meter;
+        this.audioLevelService.open(userId);
+        socket.levelTimer = setInterval(
+            () => this.audioLevelService.publish(userId, meter.take(callId)),
+            this.audioLevelOptions.intervalMs ?? DEFAULT_AUDIO_LEVEL_INTERVAL_MS
+        );
+    }
+
+    private stopAudioLevels(socket: Tw2GemSocket) {
+        if (!socket.levelMeter)
+            return;
+        clearInterval(socket.levelTimer);
+        delete socket.levelMeter;
+        this.audioLevelService.close(socket.userId!);
+    }
+
+    public onMedia(socket: Tw2GemSocket, event: TwilioMediaEvent) {
+        if (!socket.audioConverter || event.media?.track !== 'inbound' || !event.media.payload)
+            return;
+
+        // The recording, VAD, DTMF and level meters hear the caller from the first frame, before the model is up
+        const pcm8k = socket.audioConverter.decodeG711(Buffer.from(event.media.payload, 'base64'));
+        socket.voiceActivity?.process(pcm8k);
+        socket.dtmfDetector?.process(pcm8k);
+        socket.recorder?.writeCaller(pcm8k, Number(event.media.timestamp));
+
+        const model = socket.realtimeModel;
+        if (!model?.acceptsAudio)
+            return;
+        model.sendAudio(socket.audioConverter.upsamplePCM8k(pcm8k));
+        socket.usage?.addCallerAudio(pcm8k.length, 8000);
+    }
+
+    private onModelAudio(socket: Tw2GemSocket, pcm: Buffer) {
+        if (!socket.twilioStreamSid || !socket.audioConverter)
+            return;
+        socket.usage?.addAgentAudio(pcm.length / 2, socket.audioConverter.outputRate);
+        this.playAgentAudio(socket, this.processAgentAudio(socket, socket.audioConverter.downsamplePCMToPCM8k(pcm)));
     }
 
-    public onServerContent(socket: Tw2GemSocket, serverContent: any) {
-        if (!socket.twilioStreamSid || !socket.geminiClient || !serverContent.modelTurn?.parts?.length)
+    private onModelTurnComplete(socket: Tw2GemSocket) {
+        socket.callTranscript?.completeTurn();
+        if (!socket.twilioStreamSid || !socket.audioConverter)
             return;
 
-        const parts = serverContent.modelTurn?.parts;
+        this.playAgentAudio(socket, this.processAgentAudio(socket, socket.audioConverter.flushPCM8k()));
+        const endOfTurnMark = socket.agentPlayback?.endTurn();
+        if (endOfTurnMark)
+            socket.playout?.enqueueMark(endOfTurnMark);
+    }
 
-        const inlineData = parts.flatMap((part: any) => part.inlineData)?.filter((item: any) => item?.mimeType === 'audio/pcm;rate=24000' && item?.data);
-        if (!inlineData?.length)
+    // Queue agent audio for Twilio; the playout queue splits it into paced frames
+    private playAgentAudio(socket: Tw2GemSocket, g711Audio: Buffer) {
+        if (!g711Audio.length || !socket.audioConverter)
             return;
 
-        const base64Mulaws = inlineData.map((lineData: any) => AudioConverter.convertBase64PCM24kToBase64MuLaw8k(lineData!.data));
-        for (const audios of base64Mulaws) {
+        // The model is talking again, so any prompt or hold music gives way
+        socket.playbackMixer?.stopAll();
+        socket.recorder?.writeAgent(decodeG711(g711Audio, socket.audioConverter.codec));
+        this.sendAgentAudio(socket, g711Audio);
+        if (socket.agentPlayback)
+            socket.playout?.enqueueMark(socket.agentPlayback.audioSent(g711Audio.length));
+    }
+
+    // Barge-in: drop the agent audio still queued at Twilio and account for what the caller heard
+    private interruptAgent(socket: Tw2GemSocket) {
+        if (!socket.twilioStreamSid)
+            return;
+
+        const unsentMarks = socket.playout?.clear() || [];
+        socket.sendClear({ streamSid: socket.twilioStreamSid });
+        socket.audioConverter?.resetOutbound();
+        socket.recorder?.truncateAgent();
+
+        const playback = socket.agentPlayback?.interrupt(unsentMarks);
+        socket.callTranscript?.interruptAgent(playback?.sentMs ? playback.playedMs / playback.sentMs : 1);
+        if (playback)
+            this.agentPlayback.onAgentInterrupted?.(socket, playback);
+    }
+
+    private createPlaybackMixer(socket: Tw2GemSocket): PlaybackMixer {
+        const mixer = new PlaybackMixer();
+        mixer.onFrame = (pcm8k) => {
+            if (!socket.audioConverter)
+                return;
+            socket.recorder?.writeAgent(pcm8k);
+            this.sendAgentAudio(socket, Buffer.from(socket.audioConverter.encodeG711(pcm8k)));
+        };
+        return mixer;
+    }
+
+    private loadClip(source?: string | AudioClip): Promise<AudioClip | undefined> | undefined {
+        if (!source)
+            return undefined;
+        if (source instanceof AudioClip)
+            return Promise.resolve(source);
+        return AudioClip.fromFile(source).catch(error => {
+            console.error(`Error loading audio clip ${source}:`, error);
+            return undefined;
+        });
+    }
+
+    private async playClip(socket: Tw2GemSocket, clip?: Promise<AudioClip | undefined>, options: PlaybackOptions = {}): Promise<Playback | undefined> {
+        const loaded = await clip;
+        if (!loaded || !socket.playbackMixer || socket.callEnded)
+            return undefined;
+        return socket.playbackMixer.play(loaded, { volume: this.playbackOptions.volume, ...options });
+    }
+
+    // Loop hold music if function calls outlast the delay; the returned callback stops it
+    private startHoldMusic(socket: Tw2GemSocket): () => void {
+        if (!this.holdMusic)
+            return () => {};
+
+        let stopped = false;
+        let playback: Playback | undefined;
+        const timer = setTimeout(async () => {
+            playback = await this.playClip(socket, this.holdMusic, { loop: true });
+            if (stopped)
+                playback?.stop();
+        }, this.playbackOptions.holdMusicDelayMs ?? HOLD_MUSIC_DELAY_MS);
+
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+            playback?.stop();
+        };
+    }
+
+    private processAgentAudio(socket: Tw2GemSocket, pcm8k: Int16Array): Buffer {
+        socket.outboundAudio?.process(pcm8k);
+        return Buffer.from(socket.audioConverter!.encodeG711(pcm8k));
+    }
+
+    private sendAgentAudio(socket: Tw2GemSocket, g711Audio: Buffer) {
+        socket.playout?.enqueueMedia(g711Audio);
+    }
+
+    private createPlayoutQueue(socket: Tw2GemSocket): PlayoutQueue {
+        const playout = new PlayoutQueue();
+        playout.onMedia = (payload) => {
+            if (!socket.twilioStreamSid)
+                return;
+            // Measured as frames go out, so the agent meter moves with what the caller hears
+            if (socket.levelMeter && socket.audioConverter)
+                socket.levelMeter.addAgent(decodeG711(payload, socket.audioConverter.codec));
             socket.sendMedia({
                 streamSid: socket.twilioStreamSid,
                 media: {
-                    payload: audios
+                    payload: payload.toString('base64')
                 }
             });
+        };
+        playout.onMark = (name) => {
+            if (socket.twilioStreamSid)
+                socket.sendMark({ streamSid: socket.twilioStreamSid, mark: { name } });
+        };
+        return playout;
+    }
+
+    private createAgentPlaybackTracker(socket: Tw2GemSocket): AgentPlaybackTracker {
+        const tracker = new AgentPlaybackTracker();
+        tracker.onTurnPlayed = (playback) => this.agentPlayback.onAgentTurnPlayed?.(socket, playback);
+        tracker.onDrained = () => this.agentPlayback.onPlaybackDrained?.(socket);
+        return tracker;
+    }
+
+    // Fill gaps between agent turns with low-level noise so callers don't hear dead air
+    private startComfortNoise(socket: Tw2GemSocket) {
+        if (socket.comfortNoiseTimer || !socket.outboundAudio?.hasComfortNoise)
+            return;
+
+        const frameSamples = COMFORT_NOISE_FRAME_MS * 8;
+        socket.comfortNoiseTimer = setInterval(() => {
+            const noise = socket.outboundAudio?.comfortNoise(frameSamples);
+            if (!noise || socket.callEnded) {
+                this.stopComfortNoise(socket);
+                return;
+            }
+            // Keep at most two frames queued so agent speech is never delayed behind the noise
+            if (!socket.audioConverter || !socket.playout || socket.playout.aheadMs > COMFORT_NOISE_FRAME_MS)
+                return;
+            this.sendAgentAudio(socket, Buffer.from(socket.audioConverter.encodeG711(noise)));
+        }, COMFORT_NOISE_FRAME_MS);
+    }
+
+    private stopComfortNoise(socket: Tw2GemSocket) {
+        if (socket.comfortNoiseTimer) {
+            clearInterval(socket.comfortNoiseTimer);
+            delete socket.comfortNoiseTimer;
         }
     }
 
-    private handleCallEnd(socket: Tw2GemSocket, outcome: string) {
+    public onDigit(socket: Tw2GemSocket, digit: string, source: Tw2GemDtmfSource) {
+        const now = Date.now();
+        if (source === 'inband' && socket.dtmfSendingUntil && now < socket.dtmfSendingUntil)
+            return;
+
+        const last = socket.lastDtmf;
+        socket.lastDtmf = { digit, source, at: now };
+        if (last && last.digit === digit && last.source !== source && now - last.at < DTMF_DUPLICATE_WINDOW_MS)
+            return;
+
+        this.dtmf.onDigit?.(socket, digit, source);
+        if (this.dtmfOptions.forwardToGemini !== false && socket.realtimeModel?.isReady)
+            socket.realtimeModel.sendText(`[The caller pressed ${digit} on their keypad]`);
+    }
+
+    // Play DTMF tones to the far end of the call, e.g. to navigate a remote IVR
+    public pressDigits(callId: string, digits: string) {
+        if (!digits || !DtmfGenerator.isValidDigits(digits))
+            throw new Error(`Invalid digits '${digits}'. Use 0-9, *, #, A-D and w for a pause.`);
+
+        const socket = this.findSocketByCallId(callId);
+        if (!socket?.audioConverter || !socket.twilioStreamSid)
+            throw new Error(`Call '${callId}' is not active`);
+
+        const tones = this.dtmfGenerator.generate(digits);
+        const g711Tones = Buffer.from(socket.audioConverter.encodeG711(tones));
+        socket.recorder?.writeAgent(tones);
+        this.sendAgentAudio(socket, g711Tones);
+        socket.dtmfSendingUntil = Date.now() + (socket.playout?.aheadMs || 0) + DTMF_DUPLICATE_WINDOW_MS;
+        this.dtmf.onDigitsSent?.(socket, digits);
+
+        return {
+            digits,
+            duration_ms: Math.round(tones.length / 8)
+        };
+    }
+
+    private findSocketByCallId(callId: string): Tw2GemSocket | undefined {
+        for (const client of this.clients) {
+            const socket = <Tw2GemSocket>client;
+            if (socket.callId === callId && !socket.callEnded)
+                return socket;
+        }
+        return undefined;
+    }
+
+    private async handleCallEnd(socket: Tw2GemSocket, outcome: string) {
         if (!socket.callId || socket.callEnded) return;
         
         socket.callEnded = true;
+        clearTimeout(socket.reconnectionTimer);
+        clearInterval(socket.minuteTimer);
+        clearTimeout(socket.minuteLimitTimer);
+        clearInterval(socket.leaseTimer);
+        this.stopAudioLevels(socket);
+        this.cancelFunctionCalls(socket);
+        this.stopComfortNoise(socket);
+        socket.playbackMixer?.stopAll();
+        socket.playout?.stop();
         const endTime = new Date().toISOString();
         const durationSeconds = socket.callStartTime ? 
             Math.floor((new Date(endTime).getTime() - new Date(socket.callStartTime).getTime()) / 1000) : 0;
 
+        const billableMinutes = Math.max(socket.chargedMinutes || 0, Math.ceil(durationSeconds / 60));
+        if (socket.minuteTimer)
+            this.chargeMinutes(socket, billableMinutes - (socket.chargedMinutes || 0));
+        const usage = socket.usage?.toJSON(billableMinutes);
+        if (usage && this.usageOptions.billing !== false)
+            this.usageService.recordCallUsage(socket.userId, socket.callId, socket.callStartTime || endTime, usage);
+
+        socket.callTranscript?.completeTurn();
+        if (socket.callTranscript)
+            socket.transcript = socket.callTranscript.toText();
+
+        const recorder = socket.recorder;
+        delete socket.recorder;
+        const recordingUrl = recorder ? await this.recordingService.saveRecording(socket.callId, recorder, socket.userId) : undefined;
+
         this.webhookService.processCallEvent(
             outcome === 'failed' ? 'call.failed' : 'call.completed',
             {
@@ -134,76 +844,132 @@ export class Tw2GemServer extends TwilioWebSocketServer {
                 duration_seconds: durationSeconds,
                 outcome: outcome,
                 transcript: socket.transcript || '',
+                transcript_segments: socket.callTranscript?.toJSON(),
                 function_calls: socket.functionCalls || [],
+                model_failovers: socket.modelFailovers,
+                usage,
                 customer_satisfaction: socket.customerSatisfaction,
+                recording_url: recordingUrl,
                 timestamp: endTime
             },
             socket.userId
         );
     }
 
-    // Get function definitions for Gemini setup
+    // Get function definitions for the model setup
     public getFunctionDefinitions(): object[] {
         return this.functionHandler.getFunctionDefinitions();
     }
 
-    private async handleFunctionCalls(socket: Tw2GemSocket, serverContent: any) {
-        if (!serverContent.modelTurn?.parts) return;
-
-        const functionCalls = serverContent.modelTurn.parts
-            .filter((part: any) => part.functionCall)
-            .map((part: any) => part.functionCall);
-
-        for (const functionCall of functionCalls) {
-            if (functionCall?.name && functionCall?.args) {
-                // Store function call on socket
-                if (!socket.functionCalls) socket.functionCalls = [];
-                socket.functionCalls.push(functionCall);
-
-                try {
-                    // Execute the function call
-                    const result = await this.functionHandler.executeFunction({
-                        name: functionCall.name,
-                        args: functionCall.args,
-                        callId: socket.callId!,
-                        userId: socket.userId,
-                        agentId: socket.agentId
-                    });
-
-                    // Send function call webhook with result
-                    this.webhookService.processFunctionCall({
-                        call_id: socket.callId!,
-                        function_name: functionCall.name,
-                        parameters: functionCall.args,
-                        result: result.result,
-                        timestamp: new Date().toISOString()
-                    }, socket.userId);
-
-                    // Send function result back to Gemini
-                    if (socket.geminiClient) {
-                        if (result.success) {
-                            (socket.geminiClient as any).sendFunctionResponse(functionCall.name, result.result);
-                        } else {
-                            (socket.geminiClient as any).sendFunctionResponse(functionCall.name, {
-                                error: result.error,
-                                success: false
-                            });
-                        }
-                    }
+    // Make calls pick up edited agents, profiles or campaigns before the cached rows expire
+    public invalidateAgentConfig(table?: 'ai_agents' | 'profiles' | 'campaigns', id?: string) {
+        this.agentConfigResolver.invalidate(table, id);
+    }
 
-                } catch (error) {
-                    console.error('Error executing function call:', error);
-                    
-                    // Send error webhook
-                    this.webhookService.processFunctionCall({
-                        call_id: socket.callId!,
-                        function_name: functionCall.name,
-                        parameters: functionCall.args,
-                        result: { error: error instanceof Error ? error.message : 'Unknown error' },
-                        timestamp: new Date().toISOString()
-                    }, socket.userId);
-                }
-            }
+    // Run every call of a toolCall message in parallel and answer each by id as soon as it finishes
+    private async handleToolCall(socket: Tw2GemSocket, functionCalls: RealtimeToolCall[]) {
+        if (!functionCalls.length) return;
+
+        const stopHoldMusic = this.startHoldMusic(socket);
+        await Promise.all(functionCalls.map(functionCall => this.runFunctionCall(socket, functionCall)));
+        stopHoldMusic();
+    }
+
+    private async runFunctionCall(socket: Tw2GemSocket, functionCall: RealtimeToolCall) {
+        const args = functionCall.args;
+        const controller = new AbortController();
+        const pending = socket.pendingFunctionCalls ||= new Map();
+        if (functionCall.id)
+            pending.set(functionCall.id, controller);
+
+        // Store function call on socket
+        if (!socket.functionCalls) socket.functionCalls = [];
+        socket.functionCalls.push(functionCall);
+
+        try {
+            const escalation = functionCall.name === ESCALATE_CALL_FUNCTION ? socket.agentConfig?.escalation : undefined;
+            const result = escalation
+                ? await this.escalate(socket, escalation, args)
+                : await this.functionHandler.executeFunction({
+                    name: functionCall.name,
+                    args,
+                    callId: socket.callId!,
+                    userId: socket.userId,
+                    agentId: socket.agentId,
+                    callSid: socket.callSid,
+                    campaignId: socket.campaignId,
+                    leadId: socket.leadId,
+                    streamParameters: socket.streamParameters?.custom,
+                    signal: controller.signal
+                });
+
+            socket.callTranscript?.addToolCall({
+                name: functionCall.name,
+                args,
+                ...(result.success ? { result: result.result } : { error: result.error || 'Unknown error' })
+            });
+
+            // Send function call webhook with result
+            this.webhookService.processFunctionCall({
+                call_id: socket.callId!,
+                function_name: functionCall.name,
+                parameters: args,
+                result: result.success ? result.result : { error: result.error },
+                timestamp: new Date().toISOString()
+            }, socket.userId);
+
+            // The model has already dropped cancelled calls, so they get no response
+            if (result.cancelled)
+                return;
+            socket.realtimeModel?.sendToolResult(
+                functionCall,
+                result.success ? result.result : { error: result.error, success: false }
+            );
+        } catch (error) {
+            console.error('Error executing function call:', error);
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            socket.callTranscript?.addToolCall({ name: functionCall.name, args, error: message });
+
+            // Send error webhook
+            this.webhookService.processFunctionCall({
+                call_id: socket.callId!,
+                function_name: functionCall.name,
+                parameters: args,
+                result: { error: message },
+                timestamp: new Date().toISOString()
+            }, socket.userId);
+            socket.realtimeModel?.sendToolResult(functionCall, { error: message, success: false });
+        } finally {
+            if (functionCall.id)
+                pending.delete(functionCall.id);
+        }
+    }
+
+    // Hand the caller over through `onEscalate`; the model hears back whether it worked
+    private async escalate(socket: Tw2GemSocket, escalation: AgentEscalation, args: Record<string, any>): Promise<FunctionCallResponse> {
+        if (!this.escalation.onEscalate)
+            return { success: false, error: 'Escalation is not available on this line' };
+        if (socket.escalation)
+            return { success: false, error: 'The call has already been escalated' };
+
+        const request: Tw2GemEscalation = { ...escalation, reason: typeof args.reason === 'string' ? args.reason : '' };
+        try {
+            await this.escalation.onEscalate(socket, request);
+        } catch (error) {
+            console.error(`Error escalating call ${socket.callId}:`, error);
+            return { success: false, error: error instanceof Error ? error.message : 'Escalation failed' };
+        }
+        socket.escalation = request;
+        return { success: true, result: { success: true, escalated_to: escalation.type || 'person' } };
+    }
+
+    private cancelFunctionCalls(socket: Tw2GemSocket, ids?: string[]) {
+        const pending = socket.pendingFunctionCalls;
+        if (!pending) return;
+
+        for (const [id, controller] of pending) {
+            if (!ids || ids.includes(id))
+                controller.abort();
         }
     }
 }
\ No newline at end of file
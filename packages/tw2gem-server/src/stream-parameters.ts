@@ -0,0 +1,72 @@
+import { TwilioStartEvent } from '@tw2gem/twilio-server';
+
+/** `<Parameter>` names our TwiML passes on `<Stream>`, as they arrive in `start.customParameters`. */
+export type Tw2GemStreamParameterName = 'agent_id' | 'user_id' | 'campaign_id' | 'lead_id' | 'From' | 'To' | 'direction';
+
+export interface Tw2GemStreamParameters {
+    callSid: string;
+    accountSid: string;
+    agentId?: string;
+    userId?: string;
+    campaignId?: string;
+    leadId?: string;
+    from?: string;
+    to?: string;
+    direction?: 'inbound' | 'outbound';
+    /** Every custom parameter as sent, including ones without a field above. */
+    custom: Record<string, string>;
+}
+
+export type StreamParametersResult =
+    | { ok: true, parameters: Tw2GemStreamParameters }
+    | { ok: false, error: string };
+
+export const DEFAULT_REQUIRED_STREAM_PARAMETERS: Tw2GemStreamParameterName[] = ['agent_id', 'user_id'];
+
+/**
+ * Reads the call identity and our custom `<Parameter>`s from a stream's start event. Parameter
+ * values must be non-empty strings, `direction` must be inbound or outbound (Twilio's
+ * `outbound-api` and `outbound-dial` count as outbound), and every name in `required` must be set.
+ */
+export function parseStreamParameters(
+    start: TwilioStartEvent['start'],
+    required: Tw2GemStreamParameterName[] = DEFAULT_REQUIRED_STREAM_PARAMETERS
+): StreamParametersResult {
+    const custom: Record<string, string> = {};
+    for (const [name, value] of Object.entries(start.customParameters || {})) {
+        if (typeof value !== 'string')
+            return { ok: false, error: `Stream parameter ${name} must be a string` };
+        if (value.trim() !== '')
+            custom[name] = value.trim();
+    }
+
+    const missing = required.filter(name => custom[name] === undefined);
+    if (missing.length)
+        return { ok: false, error: `Missing required stream parameters: ${missing.join(', ')}` };
+
+    let direction: Tw2GemStreamParameters['direction'];
+    if (custom.direction !== undefined) {
+        if (custom.direction === 'inbound')
+            direction = 'inbound';
+        else if (custom.direction.startsWith('outbound'))
+            direction = 'outbound';
+        else
+            return { ok: false, error: `Invalid stream parameter direction: ${custom.direction}` };
+    }
+
+    return {
+        ok: true,
+        parameters: {
+            callSid: start.callSid,
+            accountSid: start.accountSid,
+            agentId: custom.agent_id,
+            userId: custom.user_id,
+            campaignId: custom.campaign_id,
+            leadId: custom.lead_id,
+            from: custom.From,
+            to: custom.To,
+            direction,
+            custom
+        }
+    };
+}
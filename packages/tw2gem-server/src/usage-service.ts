@@ -0,0 +1,66 @@
+import { createClient } from '@supabase/supabase-js';
+import { CallUsageSummary } from './call-usage.js';
+
+export class UsageService {
+  private supabase: any;
+
+  constructor(supabaseUrl?: string, supabaseKey?: string) {
+    if (supabaseUrl && supabaseKey) {
+      this.supabase = createClient(supabaseUrl, supabaseKey);
+    }
+  }
+
+  // Add call minutes to the profile's minutes_used, which counts against its monthly_minute_limit, and return the new total
+  async chargeMinutes(userId: string | undefined, minutes: number): Promise<number | undefined> {
+    if (!this.supabase || !userId || minutes <= 0) {
+      return undefined;
+    }
+
+    try {
+      const { data, error } = await this.supabase.rpc('increment_minutes_used', {
+        profile_id: userId,
+        minutes
+      });
+      if (error) {
+        console.error('Error charging call minutes:', error);
+        return undefined;
+      }
+      return typeof data === 'number' ? data : undefined;
+    } catch (error) {
+      console.error('Error charging call minutes:', error);
+      return undefined;
+    }
+  }
+
+  // Write the call's line to the usage ledger, in the billing period it started in
+  async recordCallUsage(userId: string | undefined, callId: string, startedAt: string, usage: CallUsageSummary) {
+    if (!this.supabase || !userId) {
+      return;
+    }
+
+    const start = new Date(startedAt);
+    const periodStart = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1));
+    const periodEnd = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1) - 1);
+
+    try {
+      const { error } = await this.supabase
+        .from('usage_records')
+        .insert({
+          profile_id: userId,
+          call_id: callId,
+          usage_type: 'minutes',
+          quantity: usage.billable_minutes,
+          total_cost: usage.estimated_cost,
+          input_tokens: usage.input_tokens,
+          output_tokens: usage.output_tokens,
+          billing_period_start: periodStart.toISOString(),
+          billing_period_end: periodEnd.toISOString()
+        });
+      if (error) {
+        console.error('Error recording call usage:', error);
+      }
+    } catch (error) {
+      console.error('Error recording call usage:', error);
+    }
+  }
+}
@@ -1,17 +1,27 @@
 import { createClient } from '@supabase/supabase-js';
+import { CallUsageSummary } from './call-usage.js';
+import { TranscriptSegment } from './call-transcript.js';
+import { Tw2GemModelFailover } from './server.dto.js';
 
 interface CallEventData {
   call_id: string
   phone_number_from?: string
   phone_number_to?: string
   agent_id?: string
+  campaign_id?: string
+  lead_id?: string
+  call_sid?: string
   direction?: 'inbound' | 'outbound'
   status?: string
   duration_seconds?: number
   outcome?: string
   transcript?: string
+  transcript_segments?: TranscriptSegment[]
   function_calls?: any[]
+  model_failovers?: Tw2GemModelFailover[]
+  usage?: CallUsageSummary
   customer_satisfaction?: number
+  recording_url?: string
   timestamp: string
 }
 
@@ -58,6 +68,9 @@ export class WebhookService {
               id: data.call_id,
               profile_id: userId,
               agent_id: data.agent_id,
+              campaign_id: data.campaign_id,
+              lead_id: data.lead_id,
+              call_sid: data.call_sid,
               phone_number_from: data.phone_number_from,
               phone_number_to: data.phone_number_to,
               direction: data.direction,
@@ -75,7 +88,11 @@ export class WebhookService {
               duration_seconds: data.duration_seconds,
               outcome: data.outcome,
               transcript: data.transcript,
-              customer_satisfaction_score: data.customer_satisfaction
+              transcript_segments: data.transcript_segments,
+              ...failoverColumns(data),
+              ...usageColumns(data),
+              customer_satisfaction_score: data.customer_satisfaction,
+              recording_url: data.recording_url
             })
             .eq('id', data.call_id);
           break;
@@ -86,7 +103,12 @@ export class WebhookService {
             .update({
               status: 'failed',
               ended_at: data.timestamp,
-              outcome: data.outcome || 'failed'
+              outcome: data.outcome || 'failed',
+              transcript: data.transcript,
+              transcript_segments: data.transcript_segments,
+              ...failoverColumns(data),
+              ...usageColumns(data),
+              recording_url: data.recording_url
             })
             .eq('id', data.call_id);
           break;
@@ -227,4 +249,22 @@ export class WebhookService {
       console.error('Error logging function call:', error);
     }
   }
+}
+
+// Calls that never failed over keep the column defaults
+function failoverColumns(data: CallEventData) {
+  return data.model_failovers?.length
+    ? { failed_over: true, model_failovers: data.model_failovers }
+    : {};
+}
+
+function usageColumns(data: CallEventData) {
+  return data.usage
+    ? {
+        total_tokens: data.usage.total_tokens,
+        billable_minutes: data.usage.billable_minutes,
+        estimated_cost: data.usage.estimated_cost,
+        usage: data.usage
+      }
+    : {};
 }
\ No newline at end of file
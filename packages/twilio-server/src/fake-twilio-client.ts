@@ -0,0 +1,201 @@
+import { WebSocket } from 'ws';
+import { TwilioConnectedEvent, TwilioDtmfEvent, TwilioEvent, TwilioMarkEvent, TwilioMediaEvent, TwilioStartEvent, TwilioStopEvent } from './twilio-server.dto.js';
+
+export interface FakeTwilioCallOptions {
+    /** Sent as `start.customParameters`, like `<Parameter>`s on `<Stream>`. */
+    customParameters?: Record<string, string>;
+    encoding?: 'audio/x-mulaw' | 'audio/x-alaw';
+    callSid?: string;
+    accountSid?: string;
+    streamSid?: string;
+}
+
+const MULAW_SILENCE = 0xff;
+const ALAW_SILENCE = 0xd5;
+
+/**
+ * Plays the Twilio side of a bidirectional media stream against a server: sends `connected`,
+ * `start`, caller media, DTMF and `stop`, and collects what the server sends back. Marks are
+ * echoed once the audio sent before them would have finished playing, and straight away on a
+ * `clear`, as Twilio does.
+ */
+export class FakeTwilioClient {
+
+    public onMedia?: (payload: Buffer) => void;
+    public onMark?: (name: string) => void;
+    public onClear?: () => void;
+    public onClose?: (code: number) => void;
+
+    /** Agent audio received, as G.711 bytes. */
+    public receivedAudio: Buffer = Buffer.alloc(0);
+    public marks: string[] = [];
+    public clears: number = 0;
+
+    private socket?: WebSocket;
+    private sequenceNumber = 0;
+    private chunk = 0;
+    private sentMs = 0;
+    private playedUntil = 0;
+    private pendingMarks = new Map<string, NodeJS.Timeout>();
+    private readonly options: Required<Omit<FakeTwilioCallOptions, 'customParameters'>> & Pick<FakeTwilioCallOptions, 'customParameters'>;
+
+    constructor(options: FakeTwilioCallOptions = {}) {
+        const id = Math.random().toString(36).slice(2, 12);
+        this.options = {
+            encoding: 'audio/x-mulaw',
+            callSid: `CA${id}`,
+            accountSid: `AC${id}`,
+            streamSid: `MZ${id}`,
+            ...options
+        };
+    }
+
+    get streamSid(): string {
+        return this.options.streamSid;
+    }
+
+    get isOpen(): boolean {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    /** Opens the stream and sends `connected` and `start`. */
+    connect(url: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(url);
+            this.socket = socket;
+            socket.on('error', reject);
+            socket.on('message', data => this.handleMessage(data.toString()));
+            socket.on('close', code => {
+                this.pendingMarks.forEach(timer => clearTimeout(timer));
+                this.pendingMarks.clear();
+                this.onClose?.(code);
+            });
+            socket.once('open', () => {
+                this.send(<TwilioConnectedEvent>{ event: 'connected', protocol: 'Call', version: '1.0.0' });
+                this.send(<TwilioStartEvent>{
+                    event: 'start',
+                    sequenceNumber: ++this.sequenceNumber,
+                    streamSid: this.streamSid,
+                    start: {
+                        streamSid: this.streamSid,
+                        accountSid: this.options.accountSid,
+                        callSid: this.options.callSid,
+                        tracks: ['inbound'],
+                        customParameters: this.options.customParameters || {},
+                        mediaFormat: { encoding: this.options.encoding, sampleRate: 8000, channels: 1 }
+                    }
+                });
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Sends caller audio as G.711 in 20 ms media messages. With `realtime`, messages are spaced 20 ms
+     * apart like a real call; otherwise they go out back to back.
+     */
+    async sendAudio(g711: Buffer, realtime: boolean = false) {
+        for (let offset = 0; offset < g711.length; offset += 160) {
+            this.send(<TwilioMediaEvent>{
+                event: 'media',
+                sequenceNumber: ++this.sequenceNumber,
+                streamSid: this.streamSid,
+                media: {
+                    track: 'inbound',
+                    chunk: ++this.chunk,
+                    timestamp: String(this.sentMs),
+                    payload: g711.subarray(offset, offset + 160).toString('base64')
+                }
+            });
+            this.sentMs += 20;
+            if (realtime)
+                await new Promise(resolve => setTimeout(resolve, 20));
+        }
+    }
+
+    sendSilence(durationMs: number, realtime: boolean = false) {
+        const silence = this.options.encoding === 'audio/x-alaw' ? ALAW_SILENCE : MULAW_SILENCE;
+        return this.sendAudio(Buffer.alloc(Math.round(durationMs * 8), silence), realtime);
+    }
+
+    sendDtmf(digit: string) {
+        this.send(<TwilioDtmfEvent>{
+            event: 'dtmf',
+            sequenceNumber: ++this.sequenceNumber,
+            streamSid: this.streamSid,
+            dtmf: { track: 'inbound_track', digit }
+        });
+    }
+
+    /** Ends the stream the way Twilio does when the call hangs up. */
+    hangUp() {
+        this.send(<TwilioStopEvent>{
+            event: 'stop',
+            sequenceNumber: ++this.sequenceNumber,
+            streamSid: this.streamSid,
+            stop: { accountSid: this.options.accountSid, callSid: this.options.callSid }
+        });
+        this.socket?.close();
+    }
+
+    /** Resolves once `predicate` holds, e.g. after enough agent audio or a given mark has arrived. */
+    waitFor(predicate: () => boolean, timeoutMs: number = 5000): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const startedAt = Date.now();
+            const poll = setInterval(() => {
+                if (predicate()) {
+                    clearInterval(poll);
+                    resolve();
+                } else if (Date.now() - startedAt > timeoutMs) {
+                    clearInterval(poll);
+                    reject(new Error(`Condition not met within ${timeoutMs}ms`));
+                }
+            }, 10);
+        });
+    }
+
+    private handleMessage(raw: string) {
+        const message = JSON.parse(raw);
+        switch (message.event) {
+            case 'media': {
+                const payload = Buffer.from(message.media.payload, 'base64');
+                this.receivedAudio = Buffer.concat([this.receivedAudio, payload]);
+                this.playedUntil = Math.max(Date.now(), this.playedUntil) + payload.length / 8;
+                this.onMedia?.(payload);
+                break;
+            }
+            case 'mark': {
+                const name = message.mark.name;
+                const timer = setTimeout(() => this.echoMark(name), Math.max(0, this.playedUntil - Date.now()));
+                this.pendingMarks.set(name, timer);
+                break;
+            }
+            case 'clear':
+                this.clears++;
+                this.playedUntil = 0;
+                this.pendingMarks.forEach((timer, name) => {
+                    clearTimeout(timer);
+                    this.echoMark(name);
+                });
+                this.onClear?.();
+                break;
+        }
+    }
+
+    private echoMark(name: string) {
+        this.pendingMarks.delete(name);
+        this.marks.push(name);
+        this.send(<TwilioMarkEvent>{
+            event: 'mark',
+            sequenceNumber: ++this.sequenceNumber,
+            streamSid: this.streamSid,
+            mark: { name }
+        });
+        this.onMark?.(name);
+    }
+
+    private send(event: TwilioEvent) {
+        if (this.isOpen)
+            this.socket!.send(JSON.stringify(event));
+    }
+}
@@ -1,2 +1,3 @@
 export * from './twilio-server.dto.js';
-export * from './twilio-server.js';
\ No newline at end of file
+export * from './twilio-server.js';
+export * from './twilio-server.validation.js';
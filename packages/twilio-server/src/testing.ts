@@ -0,0 +1 @@
+export * from './fake-twilio-client.js';
@@ -48,6 +48,17 @@ export interface TwilioSendMedia {
     }
 }
 
+export interface TwilioSendMark {
+    streamSid: string;
+    mark: {
+        name: string;
+    }
+}
+
+export interface TwilioSendClear {
+    streamSid: string;
+}
+
 export interface TwilioStopEvent extends TwilioSequentialMessage {
     event: 'stop';
     stop: {
@@ -71,6 +82,29 @@ export interface TwilioMarkEvent extends TwilioSequentialMessage {
     }
 }
 
+export type TwilioKnownEvent =
+    | TwilioConnectedEvent
+    | TwilioStartEvent
+    | TwilioMediaEvent
+    | TwilioStopEvent
+    | TwilioDtmfEvent
+    | TwilioMarkEvent;
+
+export interface TwilioProtocolError {
+    reason: 'invalid_json' | 'invalid_message';
+    /** What was wrong, including the JSON path of the offending field for invalid messages. */
+    message: string;
+    /** Event name, when the message got far enough to have one. */
+    event?: string;
+    raw: string;
+}
+
+export interface TwilioProtocolErrorCounters {
+    invalidJson: number;
+    invalidMessage: number;
+    unknownEvent: number;
+}
+
 export interface TwilioMessageHandlers {
     onConnected?: (socket: TwilioWebSocket, event: TwilioConnectedEvent) => void;
     onStart?: (socket: TwilioWebSocket, event: TwilioStartEvent) => void;
@@ -78,6 +112,8 @@ export interface TwilioMessageHandlers {
     onStop?: (socket: TwilioWebSocket, event: TwilioStopEvent) => void;
     onDtmf?: (socket: TwilioWebSocket, event: TwilioDtmfEvent) => void;
     onMark?: (socket: TwilioWebSocket, event: TwilioMarkEvent) => void;
+    onUnknownEvent?: (socket: TwilioWebSocket, event: TwilioEvent & Record<string, unknown>) => void;
+    onProtocolError?: (socket: TwilioWebSocket, error: TwilioProtocolError) => void;
 }
 
 export interface TwilioServerOptions extends ServerOptions {
@@ -86,6 +122,12 @@ export interface TwilioServerOptions extends ServerOptions {
 
 export class TwilioWebSocket extends WebSocket {
 
+    protocolErrors: TwilioProtocolErrorCounters = {
+        invalidJson: 0,
+        invalidMessage: 0,
+        unknownEvent: 0
+    };
+
     sendMedia(media: TwilioSendMedia) {
         this.sendEvent({
             event: 'media',
@@ -93,6 +135,22 @@ export class TwilioWebSocket extends WebSocket {
         });
     }
 
+    /** Asks Twilio to echo a `mark` event once the media sent before it has played. */
+    sendMark(mark: TwilioSendMark) {
+        this.sendEvent({
+            event: 'mark',
+            ...mark
+        });
+    }
+
+    /** Drops all media queued at Twilio; outstanding marks are echoed back straight away. */
+    sendClear(clear: TwilioSendClear) {
+        this.sendEvent({
+            event: 'clear',
+            ...clear
+        });
+    }
+
     sendEvent(event: TwilioEvent) {
         const json = JSON.stringify(event);
         this.send(json);
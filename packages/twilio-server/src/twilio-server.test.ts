@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { TwilioEvent, TwilioKnownEvent, TwilioProtocolError, TwilioWebSocket } from './twilio-server.dto.js';
+import { TwilioWebSocketServer } from './twilio-server.js';
+
+function fixture(name: string): string[] {
+    return readFileSync(new URL(`../fixtures/${name}`, import.meta.url), 'utf8').split('\n').filter(line => line.trim());
+}
+
+interface Replay {
+    socket: TwilioWebSocket;
+    events: TwilioKnownEvent[];
+    unknown: TwilioEvent[];
+    errors: TwilioProtocolError[];
+}
+
+describe('TwilioWebSocketServer', () => {
+    let server: TwilioWebSocketServer | undefined;
+
+    afterEach(async () => {
+        await new Promise(resolve => server?.close(resolve));
+        server = undefined;
+    });
+
+    // Sends a recorded stream to a fresh server and resolves once the stream's `stop` is handled
+    async function replay(name: string): Promise<Replay> {
+        const result: Partial<Replay> & Pick<Replay, 'events' | 'unknown' | 'errors'> = { events: [], unknown: [], errors: [] };
+        const stopped = new Promise<void>(resolve => {
+            const record = (socket: TwilioWebSocket, event: TwilioKnownEvent) => {
+                result.socket = socket;
+                result.events.push(event);
+            };
+            server = new TwilioWebSocketServer({
+                port: 0,
+                handlers: {
+                    onConnected: record,
+                    onStart: record,
+                    onMedia: record,
+                    onDtmf: record,
+                    onMark: record,
+                    onStop: (socket, event) => {
+                        record(socket, event);
+                        resolve();
+                    },
+                    onUnknownEvent: (_, event) => result.unknown.push(event),
+                    onProtocolError: (_, error) => result.errors.push(error)
+                }
+            });
+        });
+        await new Promise(resolve => server!.once('listening', resolve));
+
+        const client = new WebSocket(`ws://localhost:${(server!.address() as AddressInfo).port}`);
+        await new Promise(resolve => client.once('open', resolve));
+        fixture(name).forEach(line => client.send(line));
+        await stopped;
+        client.close();
+
+        return result as Replay;
+    }
+
+    it('dispatches every message of a recorded call to its handler', async () => {
+        const { socket, events, unknown, errors } = await replay('inbound-call.jsonl');
+
+        expect(events.map(event => event.event)).toEqual(['connected', 'start', 'media', 'media', 'dtmf', 'mark', 'media', 'stop']);
+        expect(unknown).toEqual([]);
+        expect(errors).toEqual([]);
+        expect(socket.protocolErrors).toEqual({ invalidJson: 0, invalidMessage: 0, unknownEvent: 0 });
+    });
+
+    it('counts rejected messages per socket and keeps the stream going', async () => {
+        const { socket, events, unknown, errors } = await replay('protocol-changes.jsonl');
+
+        expect(events.map(event => event.event)).toEqual(['connected', 'stop']);
+        expect(unknown.map(event => event.event)).toEqual(['transcription']);
+        expect(errors.map(error => error.reason)).toEqual([
+            'invalid_message',
+            'invalid_message',
+            'invalid_message',
+            'invalid_message',
+            'invalid_message',
+            'invalid_json',
+            'invalid_message',
+            'invalid_message'
+        ]);
+        expect(socket.protocolErrors).toEqual({ invalidJson: 1, invalidMessage: 7, unknownEvent: 1 });
+    });
+});
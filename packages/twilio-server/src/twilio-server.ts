@@ -1,5 +1,6 @@
 import { WebSocketServer, CloseEvent, Event, ErrorEvent } from 'ws';
-import { TwilioConnectedEvent, TwilioDtmfEvent, TwilioEvent, TwilioMarkEvent, TwilioMediaEvent, TwilioServerOptions, TwilioStartEvent, TwilioStopEvent, TwilioWebSocket } from './twilio-server.dto.js';
+import { TwilioServerOptions, TwilioWebSocket } from './twilio-server.dto.js';
+import { parseTwilioMessage } from './twilio-server.validation.js';
 
 export class TwilioWebSocketServer extends WebSocketServer {
 
@@ -26,21 +27,33 @@ export class TwilioWebSocketServer extends WebSocketServer {
                     if (!dataString)
                         return;
 
-                    const twilioObject = <TwilioEvent>JSON.parse(dataString);
-                    const eventName = twilioObject.event;
-                    switch (eventName) {
+                    const parsed = parseTwilioMessage(dataString);
+                    if (parsed.kind === 'error') {
+                        if (parsed.error.reason === 'invalid_json')
+                            socket.protocolErrors.invalidJson++;
+                        else
+                            socket.protocolErrors.invalidMessage++;
+                        return options.handlers.onProtocolError?.(socket, parsed.error);
+                    }
+                    if (parsed.kind === 'unknown') {
+                        socket.protocolErrors.unknownEvent++;
+                        return options.handlers.onUnknownEvent?.(socket, parsed.event);
+                    }
+
+                    const twilioEvent = parsed.event;
+                    switch (twilioEvent.event) {
                         case 'connected':
-                            return options.handlers.onConnected?.(socket, <TwilioConnectedEvent>twilioObject);
+                            return options.handlers.onConnected?.(socket, twilioEvent);
                         case 'start':
-                            return options.handlers.onStart?.(socket, <TwilioStartEvent>twilioObject);
+                            return options.handlers.onStart?.(socket, twilioEvent);
                         case 'media':
-                            return options.handlers.onMedia?.(socket, <TwilioMediaEvent>twilioObject);
+                            return options.handlers.onMedia?.(socket, twilioEvent);
                         case 'stop':
-                            return options.handlers.onStop?.(socket, <TwilioStopEvent>twilioObject);
+                            return options.handlers.onStop?.(socket, twilioEvent);
                         case 'dtmf':
-                            return options.handlers.onDtmf?.(socket, <TwilioDtmfEvent>twilioObject);
+                            return options.handlers.onDtmf?.(socket, twilioEvent);
                         case 'mark':
-                            return options.handlers.onMark?.(socket, <TwilioMarkEvent>twilioObject);
+                            return options.handlers.onMark?.(socket, twilioEvent);
                     }
                 } catch (error) {
                     socket.emit('error', error);
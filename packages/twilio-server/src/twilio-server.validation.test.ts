@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { TwilioMediaEvent, TwilioStartEvent } from './twilio-server.dto.js';
+import { parseTwilioMessage, TwilioParseResult } from './twilio-server.validation.js';
+
+function fixture(name: string): string[] {
+    return readFileSync(new URL(`../fixtures/${name}`, import.meta.url), 'utf8').split('\n').filter(line => line.trim());
+}
+
+function events(name: string) {
+    return fixture(name).map(line => {
+        const parsed = parseTwilioMessage(line);
+        if (parsed.kind !== 'event')
+            throw new Error(`Expected a valid event, got ${JSON.stringify(parsed)}`);
+        return parsed.event;
+    });
+}
+
+describe('parseTwilioMessage', () => {
+
+    describe('recorded streams', () => {
+
+        it('accepts every message of an inbound call', () => {
+            expect(events('inbound-call.jsonl').map(event => event.event))
+                .toEqual(['connected', 'start', 'media', 'media', 'dtmf', 'mark', 'media', 'stop']);
+        });
+
+        it('converts the numeric strings Twilio sends to numbers', () => {
+            const [, start, media] = events('inbound-call.jsonl') as [unknown, TwilioStartEvent, TwilioMediaEvent];
+
+            expect(start.sequenceNumber).toBe(1);
+            expect(start.start.mediaFormat).toEqual({ encoding: 'audio/x-mulaw', sampleRate: 8000, channels: 1 });
+            expect(start.start.customParameters).toEqual({ agent_id: 'agent-1', user_id: 'user-1', direction: 'inbound' });
+            expect(media.sequenceNumber).toBe(2);
+            expect(media.media.chunk).toBe(1);
+            expect(media.media.timestamp).toBe('5');
+            expect(Buffer.from(media.media.payload, 'base64')).toHaveLength(160);
+        });
+
+        it('accepts numbers where Twilio sometimes sends strings, and streams without custom parameters', () => {
+            const [, start, media] = events('sip-alaw-call.jsonl') as [unknown, TwilioStartEvent, TwilioMediaEvent];
+
+            expect(start.start.mediaFormat.encoding).toBe('audio/x-alaw');
+            expect(start.start.tracks).toEqual(['inbound', 'outbound']);
+            expect(start.start.customParameters).toEqual({});
+            expect(media.media.timestamp).toBe('0');
+        });
+
+        it('drops fields the DTOs do not describe', () => {
+            const parsed = parseTwilioMessage(JSON.stringify({
+                event: 'mark',
+                sequenceNumber: '4',
+                streamSid: 'MZ1',
+                mark: { name: 'turn-1', extra: true },
+                extra: 'field'
+            }));
+
+            expect(parsed).toEqual({ kind: 'event', event: { event: 'mark', sequenceNumber: 4, streamSid: 'MZ1', mark: { name: 'turn-1' } } });
+        });
+    });
+
+    describe('protocol changes', () => {
+        const lines = fixture('protocol-changes.jsonl');
+        const results = lines.map(parseTwilioMessage);
+
+        const errorOf = (result: TwilioParseResult) => {
+            if (result.kind !== 'error')
+                throw new Error(`Expected a protocol error, got ${JSON.stringify(result)}`);
+            return result.error;
+        };
+
+        it('still accepts the valid messages around the broken ones', () => {
+            expect(results[0]).toMatchObject({ kind: 'event', event: { event: 'connected' } });
+            expect(results[10]).toMatchObject({ kind: 'event', event: { event: 'stop' } });
+        });
+
+        it.each([
+            [1, 'media', '$.media.payload must be a string'],
+            [2, 'media', '$.media.track must be one of inbound, outbound, got string "both"'],
+            [3, 'start', '$.start.mediaFormat must be an object'],
+            [4, 'media', '$.sequenceNumber must be an integer, got string "four"'],
+            [5, 'dtmf', '$.dtmf.digit must be a string, got number 7'],
+            [8, undefined, '$.event must be a string'],
+            [9, undefined, '$ must be an object, got an array']
+        ])('reports line %i as an invalid %s message', (line, event, message) => {
+            const error = errorOf(results[line]);
+            expect(error.reason).toBe('invalid_message');
+            expect(error.event).toBe(event);
+            expect(error.message).toContain(message);
+            expect(error.raw).toBe(lines[line]);
+        });
+
+        it('reports truncated JSON', () => {
+            const error = errorOf(results[7]);
+            expect(error.reason).toBe('invalid_json');
+            expect(error.event).toBeUndefined();
+        });
+
+        it('passes events it does not know through untouched', () => {
+            expect(results[6]).toEqual({ kind: 'unknown', event: JSON.parse(lines[6]) });
+        });
+    });
+});
@@ -0,0 +1,168 @@
+import { TwilioConnectedEvent, TwilioDtmfEvent, TwilioEvent, TwilioKnownEvent, TwilioMarkEvent, TwilioMediaEvent, TwilioProtocolError, TwilioStartEvent, TwilioStopEvent } from './twilio-server.dto.js';
+
+export type TwilioParseResult =
+    | { kind: 'event', event: TwilioKnownEvent }
+    | { kind: 'unknown', event: TwilioEvent & Record<string, unknown> }
+    | { kind: 'error', error: TwilioProtocolError };
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Parses and validates one Twilio media stream message. Fields Twilio sends as numeric strings
+ * (`sequenceNumber`, `chunk`) are converted to numbers so the result matches the DTO types, and
+ * fields the DTOs don't describe are dropped.
+ */
+export function parseTwilioMessage(raw: string): TwilioParseResult {
+    let json: unknown;
+    try {
+        json = JSON.parse(raw);
+    } catch (error) {
+        return protocolError('invalid_json', error instanceof Error ? error.message : 'Invalid JSON', raw);
+    }
+
+    let eventName: string | undefined;
+    try {
+        const message = object(json, '$');
+        eventName = string(message.event, '$.event');
+
+        const parser = parsers[eventName];
+        if (!parser)
+            return { kind: 'unknown', event: message as TwilioEvent & JsonObject };
+        return { kind: 'event', event: parser(message) };
+    } catch (error) {
+        return protocolError('invalid_message', error instanceof Error ? error.message : String(error), raw, eventName);
+    }
+}
+
+const parsers: Record<string, (message: JsonObject) => TwilioKnownEvent> = {
+    connected: (message): TwilioConnectedEvent => ({
+        event: 'connected',
+        protocol: string(message.protocol, '$.protocol'),
+        version: string(message.version, '$.version')
+    }),
+
+    start: (message): TwilioStartEvent => {
+        const start = object(message.start, '$.start');
+        const mediaFormat = object(start.mediaFormat, '$.start.mediaFormat');
+        return {
+            ...sequential(message),
+            event: 'start',
+            start: {
+                streamSid: string(start.streamSid, '$.start.streamSid'),
+                accountSid: string(start.accountSid, '$.start.accountSid'),
+                callSid: string(start.callSid, '$.start.callSid'),
+                tracks: stringArray(start.tracks, '$.start.tracks'),
+                customParameters: start.customParameters === undefined ? {} : object(start.customParameters, '$.start.customParameters'),
+                mediaFormat: {
+                    encoding: string(mediaFormat.encoding, '$.start.mediaFormat.encoding'),
+                    sampleRate: integer(mediaFormat.sampleRate, '$.start.mediaFormat.sampleRate'),
+                    channels: integer(mediaFormat.channels, '$.start.mediaFormat.channels')
+                }
+            }
+        };
+    },
+
+    media: (message): TwilioMediaEvent => {
+        const media = object(message.media, '$.media');
+        return {
+            ...sequential(message),
+            event: 'media',
+            media: {
+                track: oneOf(media.track, '$.media.track', ['inbound', 'outbound'] as const),
+                chunk: integer(media.chunk, '$.media.chunk'),
+                timestamp: numericString(media.timestamp, '$.media.timestamp'),
+                payload: string(media.payload, '$.media.payload')
+            }
+        };
+    },
+
+    stop: (message): TwilioStopEvent => {
+        const stop = object(message.stop, '$.stop');
+        return {
+            ...sequential(message),
+            event: 'stop',
+            stop: {
+                accountSid: string(stop.accountSid, '$.stop.accountSid'),
+                callSid: string(stop.callSid, '$.stop.callSid')
+            }
+        };
+    },
+
+    dtmf: (message): TwilioDtmfEvent => {
+        const dtmf = object(message.dtmf, '$.dtmf');
+        return {
+            ...sequential(message),
+            event: 'dtmf',
+            dtmf: {
+                track: string(dtmf.track, '$.dtmf.track'),
+                digit: string(dtmf.digit, '$.dtmf.digit')
+            }
+        };
+    },
+
+    mark: (message): TwilioMarkEvent => {
+        const mark = object(message.mark, '$.mark');
+        return {
+            ...sequential(message),
+            event: 'mark',
+            mark: {
+                name: string(mark.name, '$.mark.name')
+            }
+        };
+    }
+};
+
+function protocolError(reason: TwilioProtocolError['reason'], message: string, raw: string, event?: string): TwilioParseResult {
+    return { kind: 'error', error: { reason, message, event, raw } };
+}
+
+function sequential(message: JsonObject) {
+    return {
+        sequenceNumber: integer(message.sequenceNumber, '$.sequenceNumber'),
+        streamSid: string(message.streamSid, '$.streamSid')
+    };
+}
+
+function describe(value: unknown): string {
+    if (value === null)
+        return 'null';
+    if (Array.isArray(value))
+        return 'an array';
+    return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function object(value: unknown, path: string): JsonObject {
+    if (typeof value !== 'object' || value === null || Array.isArray(value))
+        throw new Error(`${path} must be an object, got ${describe(value)}`);
+    return value as JsonObject;
+}
+
+function string(value: unknown, path: string): string {
+    if (typeof value !== 'string')
+        throw new Error(`${path} must be a string, got ${describe(value)}`);
+    return value;
+}
+
+function stringArray(value: unknown, path: string): string[] {
+    if (!Array.isArray(value))
+        throw new Error(`${path} must be an array, got ${describe(value)}`);
+    return value.map((item, index) => string(item, `${path}[${index}]`));
+}
+
+/** Accepts an integer or a string holding one, as Twilio sends both. */
+function integer(value: unknown, path: string): number {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isInteger(number))
+        throw new Error(`${path} must be an integer, got ${describe(value)}`);
+    return number;
+}
+
+function numericString(value: unknown, path: string): string {
+    return String(integer(value, path));
+}
+
+function oneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+    if (!options.includes(value as T))
+        throw new Error(`${path} must be one of ${options.join(', ')}, got ${describe(value)}`);
+    return value as T;
+}
@@ -25,6 +25,26 @@ const VOICE_OPTIONS = [
   { value: 'Zephyr', label: 'Zephyr (Non-binary, Calm)' }
 ];
 
+const OPENAI_VOICE_OPTIONS = [
+  { value: 'alloy', label: 'Alloy (Neutral, Balanced)' },
+  { value: 'ash', label: 'Ash (Male, Clear)' },
+  { value: 'ballad', label: 'Ballad (Male, Expressive)' },
+  { value: 'cedar', label: 'Cedar (Male, Natural)' },
+  { value: 'coral', label: 'Coral (Female, Warm)' },
+  { value: 'echo', label: 'Echo (Male, Resonant)' },
+  { value: 'marin', label: 'Marin (Female, Natural)' },
+  { value: 'sage', label: 'Sage (Female, Calm)' },
+  { value: 'shimmer', label: 'Shimmer (Female, Bright)' },
+  { value: 'verse', label: 'Verse (Male, Versatile)' }
+];
+
+const MODEL_PROVIDER_OPTIONS = [
+  { value: 'gemini', label: 'Google Gemini Live' },
+  { value: 'openai', label: 'OpenAI Realtime' }
+];
+
+const DEFAULT_VOICES = { gemini: 'Puck', openai: 'alloy' } as const;
+
 const AGENT_TYPES = [
   { value: 'customer_service', label: 'Customer Service' },
   { value: 'sales', label: 'Sales' },
@@ -96,6 +116,7 @@ const AgentManager: React.FC = () => {
     agent_type: 'general',
     call_direction: 'inbound',
     routing_type: 'direct', // Default to direct connection
+    model_provider: 'gemini',
     voice_name: 'Puck',
     language_code: 'en-US',
     system_instruction: '',
@@ -140,6 +161,16 @@ const AgentManager: React.FC = () => {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  // Each provider has its own voices, so switching provider switches to its default voice
+  const handleModelProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const provider = e.target.value as keyof typeof DEFAULT_VOICES;
+    setFormData(prev => ({
+      ...prev,
+      model_provider: provider,
+      voice_name: DEFAULT_VOICES[provider]
+    }));
+  };
+
   const handleCheckboxChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, checked } = e.target;
     setFormData(prev => ({ ...prev, [name]: checked }));
@@ -194,6 +225,7 @@ const AgentManager: React.FC = () => {
         agent_type: 'general',
         call_direction: 'inbound',
         routing_type: 'direct',
+        model_provider: 'gemini',
         voice_name: 'Puck',
         language_code: 'en-US',
         system_instruction: DEFAULT_SYSTEM_INSTRUCTIONS.general,
@@ -224,6 +256,7 @@ const AgentManager: React.FC = () => {
       agent_type: agent.agent_type,
       call_direction: agent.call_direction || 'inbound',
       routing_type: agent.routing_type || 'direct',
+      model_provider: agent.model_provider || 'gemini',
       voice_name: agent.voice_name,
       language_code: agent.language_code,
       system_instruction: agent.system_instruction || DEFAULT_SYSTEM_INSTRUCTIONS[agent.agent_type as keyof typeof DEFAULT_SYSTEM_INSTRUCTIONS] || '',
@@ -276,6 +309,7 @@ const AgentManager: React.FC = () => {
       name: '',
       description: '',
       agent_type: 'general',
+      model_provider: 'gemini',
       voice_name: 'Puck',
       language_code: 'en-US',
       system_instruction: DEFAULT_SYSTEM_INSTRUCTIONS.general,
@@ -529,15 +563,31 @@ const AgentManager: React.FC = () => {
                     </div>
                   )}
                   
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Model Provider</label>
+                    <select
+                      name="model_provider"
+                      value={formData.model_provider || 'gemini'}
+                      onChange={handleModelProviderChange}
+                      className="w-full border rounded p-2"
+                    >
+                      {MODEL_PROVIDER_OPTIONS.map(provider => (
+                        <option key={provider.value} value={provider.value}>
+                          {provider.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium mb-1">Voice</label>
                     <select
                       name="voice_name"
-                      value={formData.voice_name || 'Puck'}
+                      value={formData.voice_name || DEFAULT_VOICES[formData.model_provider || 'gemini']}
                       onChange={handleInputChange}
                       className="w-full border rounded p-2"
                     >
-                      {VOICE_OPTIONS.map(voice => (
+                      {(formData.model_provider === 'openai' ? OPENAI_VOICE_OPTIONS : VOICE_OPTIONS).map(voice => (
                         <option key={voice.value} value={voice.value}>
                           {voice.label}
                         </option>
@@ -0,0 +1,28 @@
+interface AudioLevelMeterProps {
+  label: string;
+  /** Level in dBFS; undefined while no levels have arrived. */
+  dbfs?: number;
+  active?: boolean;
+}
+
+// Telephone speech sits around -30 to -10 dBFS, so the bar spans -60 dBFS to full scale
+const FLOOR_DBFS = -60;
+
+export default function AudioLevelMeter({ label, dbfs, active }: AudioLevelMeterProps) {
+  const level = dbfs === undefined ? 0 : Math.min(1, Math.max(0, (dbfs - FLOOR_DBFS) / -FLOOR_DBFS));
+
+  return (
+    <div
+      className="flex items-center space-x-2"
+      title={dbfs === undefined ? `${label}: no audio yet` : `${label}: ${dbfs} dBFS`}
+    >
+      <span className="w-10 text-xs text-gray-500">{label}</span>
+      <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-200 ${active ? 'bg-green-500' : 'bg-blue-400'}`}
+          style={{ width: `${Math.round(level * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
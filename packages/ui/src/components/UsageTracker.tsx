@@ -1,12 +1,48 @@
+import { useEffect, useState } from 'react';
 import { useUser } from '../contexts/UserContext';
+import { supabase, type CallLog, type Profile } from '../lib/supabase';
+import { DatabaseService } from '../services/database';
 import { ClockIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 
 export default function UsageTracker() {
   const { user } = useUser();
+  const [minutesUsed, setMinutesUsed] = useState(user?.minutes_used || 0);
+  const [callUsage, setCallUsage] = useState<CallLog[]>([]);
+
+  // The call server charges minutes while calls are live and prices each call when it ends
+  useEffect(() => {
+    if (!user) return;
+
+    setMinutesUsed(user.minutes_used);
+    const loadCallUsage = () => DatabaseService.getCallUsage(user.id).then(setCallUsage);
+    loadCallUsage();
+
+    const channel = supabase
+      .channel(`usage_${user.id}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'profiles',
+        filter: `id=eq.${user.id}`
+      }, (payload) => setMinutesUsed((payload.new as Profile).minutes_used))
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'call_logs',
+        filter: `profile_id=eq.${user.id}`
+      }, (payload) => {
+        if ((payload.new as CallLog).estimated_cost != null) loadCallUsage();
+      })
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [user]);
 
   if (!user) return null;
 
-  const usagePercentage = (user.minutes_used / user.monthly_minute_limit) * 100;
+  const usagePercentage = (minutesUsed / user.monthly_minute_limit) * 100;
   const isNearLimit = usagePercentage >= 80;
   const isOverLimit = usagePercentage >= 100;
 
@@ -43,7 +79,7 @@ export default function UsageTracker() {
         <div className="flex justify-between items-center">
           <span className="text-sm text-slate-600">Minutes Used</span>
           <span className={`text-sm font-medium ${getTextColor()}`}>
-            {user.minutes_used.toLocaleString()} / {user.monthly_minute_limit.toLocaleString()}
+            {minutesUsed.toLocaleString()} / {user.monthly_minute_limit.toLocaleString()}
           </span>
         </div>
 
@@ -86,11 +122,35 @@ export default function UsageTracker() {
           <div className="flex justify-between text-sm mt-1">
             <span className="text-slate-600">Remaining</span>
             <span className="font-medium text-slate-900">
-              {Math.max(0, user.monthly_minute_limit - user.minutes_used).toLocaleString()} minutes
+              {Math.max(0, user.monthly_minute_limit - minutesUsed).toLocaleString()} minutes
             </span>
           </div>
+          {callUsage.length > 0 && (
+            <>
+              <div className="flex justify-between text-sm mt-1">
+                <span className="text-slate-600">Est. model cost</span>
+                <span className="font-medium text-slate-900">
+                  {formatCost(callUsage.reduce((sum, call) => sum + (call.estimated_cost || 0), 0))}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm mt-1">
+                <span className="text-slate-600">Last call</span>
+                <span className="font-medium text-slate-900">
+                  {formatCost(callUsage[0].estimated_cost || 0)} · {(callUsage[0].total_tokens || 0).toLocaleString()} tokens
+                </span>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function formatCost(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 4
+  }).format(amount);
+}
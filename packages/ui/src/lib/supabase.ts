@@ -38,6 +38,9 @@ export interface Profile {
   twilio_auth_token?: string
   gemini_api_key?: string
   gemini_model?: 'gemini-live-2.5-flash-preview' | 'gemini-2.0-flash-live-001' | 'gemini-2.5-flash-preview-native-audio-dialog'
+  gemini_fallback_models?: string[] | null
+  openai_api_key?: string
+  openai_model?: string
   routing_strategy?: string
   call_recording_enabled?: boolean
   transcription_enabled?: boolean
@@ -54,7 +57,8 @@ export interface AIAgent {
   agent_type: 'customer_service' | 'sales' | 'support' | 'appointment_booking' | 'survey' | 'after_hours' | 'general'
   call_direction: 'inbound' | 'outbound' | 'both'
   routing_type?: 'direct' | 'ivr' | 'forward'
-  voice_name: 'Puck' | 'Charon' | 'Kore' | 'Fenrir' | 'Aoede' | 'Leda' | 'Orus' | 'Zephyr'
+  model_provider?: 'gemini' | 'openai' | null
+  voice_name: GeminiVoiceName | OpenAIVoiceName
   language_code: string
   system_instruction?: string
   twilio_phone_number?: string
@@ -72,10 +76,33 @@ export interface AIAgent {
   status?: 'available' | 'busy' | 'offline'
   forward_number?: string
   ivr_menu_id?: string | null
+  audio_settings?: AgentAudioSettings | null
+  vad_settings?: AgentVadSettings | null
   created_at: string
   updated_at: string
 }
 
+export type GeminiVoiceName = 'Puck' | 'Charon' | 'Kore' | 'Fenrir' | 'Aoede' | 'Leda' | 'Orus' | 'Zephyr'
+
+export type OpenAIVoiceName = 'alloy' | 'ash' | 'ballad' | 'cedar' | 'coral' | 'echo' | 'marin' | 'sage' | 'shimmer' | 'verse'
+
+export interface AgentAudioSettings {
+  remove_dc_offset?: boolean
+  normalize_volume?: boolean
+  target_level_dbfs?: number
+  max_gain_db?: number
+  comfort_noise?: boolean
+  comfort_noise_level_dbfs?: number
+}
+
+export interface AgentVadSettings {
+  disabled?: boolean
+  start_sensitivity?: 'low' | 'medium' | 'high'
+  end_sensitivity?: 'low' | 'medium' | 'high'
+  prefix_padding_ms?: number
+  silence_duration_ms?: number
+}
+
 export interface IVRMenu {
   id: string
   profile_id: string
@@ -139,6 +166,13 @@ export interface CallLog {
   duration_seconds: number
   call_summary?: string
   transcript?: string
+  transcript_segments?: CallTranscriptSegment[] | null
+  failed_over?: boolean
+  model_failovers?: CallModelFailover[] | null
+  total_tokens?: number | null
+  billable_minutes?: number | null
+  estimated_cost?: number | null
+  usage?: CallUsage | null
   recording_url?: string
   sentiment_score?: number
   outcome?: string
@@ -154,6 +188,47 @@ export interface CallLog {
   }
 }
 
+export interface CallTranscriptSegment {
+  id: number
+  speaker: 'caller' | 'agent' | 'tool'
+  text: string
+  startMs: number
+  endMs: number
+  final: boolean
+  interrupted?: boolean
+  toolCall?: {
+    name: string
+    args?: Record<string, unknown>
+    result?: unknown
+    error?: string
+  }
+}
+
+export interface CallModelFailover {
+  at: string
+  fromModel?: string
+  toModel: string
+  reason: string
+}
+
+export interface CallUsage {
+  input_tokens: number
+  output_tokens: number
+  input_audio_tokens: number
+  output_audio_tokens: number
+  total_tokens: number
+  caller_audio_seconds: number
+  agent_audio_seconds: number
+  billable_minutes: number
+  estimated_cost: number
+  models: Record<string, {
+    inputTokens: number
+    outputTokens: number
+    inputAudioTokens: number
+    outputAudioTokens: number
+  }>
+}
+
 export interface Campaign {
   id: string
   profile_id: string
@@ -348,6 +423,9 @@ export interface UsageRecord {
   quantity: number
   unit_price?: number
   total_cost?: number
+  call_id?: string
+  input_tokens?: number
+  output_tokens?: number
   billing_period_start: string
   billing_period_end: string
   created_at: string
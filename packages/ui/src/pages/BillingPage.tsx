@@ -8,6 +8,8 @@ import {
 } from '@heroicons/react/24/outline';
 import { useUser } from '../contexts/UserContext';
 import { ApiService, type BillingData } from '../services/api';
+import { DatabaseService } from '../services/database';
+import type { CallLog, Subscription, UsageRecord } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
 const PLANS = [
@@ -108,6 +110,7 @@ export default function BillingPage() {
   const { user } = useUser();
   const [subscription, setSubscription] = useState<Subscription | null>(null);
   const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [callUsage, setCallUsage] = useState<CallLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [upgradeLoading, setUpgradeLoading] = useState<string | null>(null);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
@@ -127,12 +130,14 @@ export default function BillingPage() {
 
     try {
       setLoading(true);
-      const [subscriptionData, usageData] = await Promise.all([
+      const [subscriptionData, usageData, callUsageData] = await Promise.all([
         DatabaseService.getSubscription(user.id),
-        DatabaseService.getUsageRecords(user.id)
+        DatabaseService.getUsageRecords(user.id),
+        DatabaseService.getCallUsage(user.id)
       ]);
       setSubscription(subscriptionData);
       setUsageRecords(usageData);
+      setCallUsage(callUsageData);
     } catch (error) {
       console.error('Error loading billing data:', error);
       toast.error('Failed to load billing information');
@@ -195,8 +200,17 @@ export default function BillingPage() {
     }).format(amount);
   };
 
+  const formatCost = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      maximumFractionDigits: 4
+    }).format(amount);
+  };
+
   const currentPlan = getCurrentPlan();
   const currentUsage = user?.minutes_used || 0;
+  const monthCost = callUsage.reduce((sum, call) => sum + (call.estimated_cost || 0), 0);
   const usagePercentage = currentPlan ? calculateUsagePercentage(currentUsage, currentPlan.limits.minutes) : 0;
 
   if (loading) {
@@ -316,11 +330,83 @@ export default function BillingPage() {
                 </div>
                 <div className="text-xs text-gray-500">Total Hours</div>
               </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-900">{formatCost(monthCost)}</div>
+                <div className="text-xs text-gray-500">Est. Model Cost</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-900">
+                  {formatCost(callUsage.length ? monthCost / callUsage.length : 0)}
+                </div>
+                <div className="text-xs text-gray-500">Avg. Cost per Call</div>
+              </div>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Call Costs */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Call Costs This Month</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Estimated from each call's model tokens at list prices.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Call
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Minutes
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tokens
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Est. Cost
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {callUsage.length > 0 ? (
+                callUsage.map((call) => (
+                  <tr key={call.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(call.started_at).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {call.phone_number_from} → {call.phone_number_to}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {call.billable_minutes || 0}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {(call.total_tokens || 0).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCost(call.estimated_cost || 0)}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No priced calls this month
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       {/* Billing History */}
       <div className="bg-white shadow-sm rounded-lg border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -355,7 +441,7 @@ export default function BillingPage() {
                       {new Date(record.created_at).toLocaleDateString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {currentPlan?.name} Plan - {record.usage_type}
+                      {currentPlan?.name} Plan - {record.call_id ? `${record.quantity} call ${record.usage_type}` : record.usage_type}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {formatCurrency(record.total_cost || 0)}
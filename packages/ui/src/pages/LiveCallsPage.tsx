@@ -15,7 +15,8 @@ import {
 } from '@heroicons/react/24/outline';
 import { useUser } from '../contexts/UserContext';
 import { ApiService, type LiveCallsData } from '../services/api';
-import { RealtimeService } from '../services/realtime';
+import { RealtimeService, type CallAudioLevels } from '../services/realtime';
+import AudioLevelMeter from '../components/AudioLevelMeter';
 import type { AIAgent, CallLog, ActiveCall, SystemMetrics, AgentStatus } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
@@ -27,6 +28,7 @@ export default function LiveCallsPage() {
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'connecting' | 'disconnected'>('disconnected');
   const [selectedCall, setSelectedCall] = useState<ActiveCall | null>(null);
   const [showCallDetails, setShowCallDetails] = useState(false);
+  const [audioLevels, setAudioLevels] = useState<Record<string, CallAudioLevels>>({});
 
   useEffect(() => {
     if (user) {
@@ -120,6 +122,11 @@ export default function LiveCallsPage() {
         }
       },
       (callId) => {
+        setAudioLevels(levels => {
+          const remaining = { ...levels };
+          delete remaining[callId];
+          return remaining;
+        });
         setLiveData(prev => {
           if (!prev) return prev;
           
@@ -191,12 +198,21 @@ export default function LiveCallsPage() {
       }
     );
 
+    // Subscribe to live audio levels of active calls
+    const audioLevelSubscription = RealtimeService.subscribeToAudioLevels(
+      user.id,
+      (levels) => {
+        setAudioLevels(prev => ({ ...prev, [levels.call_id]: levels }));
+      }
+    );
+
     setConnectionStatus('connected');
 
     return () => {
       callSubscription.unsubscribe();
       agentSubscription.unsubscribe();
       systemSubscription.unsubscribe();
+      audioLevelSubscription.unsubscribe();
       setConnectionStatus('disconnected');
     };
   }, [user]);
@@ -464,6 +480,14 @@ export default function LiveCallsPage() {
                           <span>•</span>
                           <span className="font-medium">{formatDuration(call.duration_seconds)}</span>
                         </div>
+                        <div className="mt-2 space-y-1">
+                          <AudioLevelMeter
+                            label="Caller"
+                            dbfs={audioLevels[call.id]?.caller_dbfs}
+                            active={audioLevels[call.id]?.caller_speaking}
+                          />
+                          <AudioLevelMeter label="Agent" dbfs={audioLevels[call.id]?.agent_dbfs} />
+                        </div>
                         {call.call_summary && (
                           <p className="text-xs text-gray-600 mt-1 italic truncate">
                             "{call.call_summary}"
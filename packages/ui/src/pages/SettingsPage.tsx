@@ -16,6 +16,12 @@ const VOICE_OPTIONS = [
   { value: 'Zephyr', label: 'Zephyr (Non-binary, Calm)' }
 ];
 
+const GEMINI_MODEL_OPTIONS = [
+  { value: 'gemini-2.0-flash-live-001', label: 'Gemini 2.0 Flash Live (Recommended)' },
+  { value: 'gemini-live-2.5-flash-preview', label: 'Gemini Live 2.5 Flash Preview' },
+  { value: 'gemini-2.5-flash-preview-native-audio-dialog', label: 'Gemini 2.5 Flash Native Audio' }
+];
+
 const AGENT_TYPES = [
   { value: 'customer_service', label: 'Customer Service' },
   { value: 'sales', label: 'Sales' },
@@ -32,6 +38,7 @@ export default function SettingsPage() {
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showApiKeys, setShowApiKeys] = useState({
     gemini: false,
+    openai: false,
     twilioSid: false,
     twilioToken: false
   });
@@ -56,6 +63,8 @@ export default function SettingsPage() {
     language_code: 'en-US',
     agent_type: 'customer_service',
     gemini_model: 'gemini-2.0-flash-live-001',
+    gemini_fallback_models: [] as string[],
+    openai_model: 'gpt-realtime',
     
     // Phone Configuration
     twilio_phone_number: '',
@@ -63,6 +72,7 @@ export default function SettingsPage() {
     
     // API Keys (these would be stored securely)
     gemini_api_key: '',
+    openai_api_key: '',
     twilio_account_sid: '',
     twilio_auth_token: ''
   });
@@ -91,6 +101,8 @@ export default function SettingsPage() {
           language_code: settings.language_code || 'en-US',
           agent_type: settings.agent_type || 'customer_service',
           gemini_model: settings.gemini_model || 'gemini-2.0-flash-live-001',
+          gemini_fallback_models: settings.gemini_fallback_models || [],
+          openai_model: settings.openai_model || 'gpt-realtime',
           twilio_phone_number: settings.twilio_phone_number || '',
           twilio_webhook_url: settings.twilio_webhook_url || ''
         }));
@@ -153,6 +165,16 @@ export default function SettingsPage() {
     }
   };
 
+  // Fallback models are tried in the order they were ticked
+  const toggleFallbackModel = (model: string) => {
+    setFormData(prev => ({
+      ...prev,
+      gemini_fallback_models: prev.gemini_fallback_models.includes(model)
+        ? prev.gemini_fallback_models.filter(fallback => fallback !== model)
+        : [...prev.gemini_fallback_models, model]
+    }));
+  };
+
   const toggleApiKeyVisibility = (key: keyof typeof showApiKeys) => {
     setShowApiKeys(prev => ({ ...prev, [key]: !prev[key] }));
   };
@@ -389,12 +411,45 @@ export default function SettingsPage() {
                   onChange={(e) => setFormData(prev => ({ ...prev, gemini_model: e.target.value }))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  <option value="gemini-2.0-flash-live-001">Gemini 2.0 Flash Live (Recommended)</option>
-                  <option value="gemini-live-2.5-flash-preview">Gemini Live 2.5 Flash Preview</option>
-                  <option value="gemini-2.5-flash-preview-native-audio-dialog">Gemini 2.5 Flash Native Audio</option>
+                  {GEMINI_MODEL_OPTIONS.map(model => (
+                    <option key={model.value} value={model.value}>{model.label}</option>
+                  ))}
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Fallback Gemini Models
+                </label>
+                <div className="space-y-2">
+                  {GEMINI_MODEL_OPTIONS.filter(model => model.value !== formData.gemini_model).map(model => (
+                    <label key={model.value} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={formData.gemini_fallback_models.includes(model.value)}
+                        onChange={() => toggleFallbackModel(model.value)}
+                        className="mr-2"
+                      />
+                      <span className="text-sm">{model.label}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Calls that lose their Gemini session mid-call continue on these models, in the order they were ticked</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  OpenAI Realtime Model
+                </label>
+                <input
+                  type="text"
+                  value={formData.openai_model}
+                  onChange={(e) => setFormData(prev => ({ ...prev, openai_model: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">Used by agents whose model provider is OpenAI</p>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -450,6 +505,31 @@ export default function SettingsPage() {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    OpenAI API Key
+                  </label>
+                  <div className="relative">
+                    <input
+                      type={showApiKeys.openai ? 'text' : 'password'}
+                      value={formData.openai_api_key}
+                      onChange={(e) => setFormData(prev => ({ ...prev, openai_api_key: e.target.value }))}
+                      className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => toggleApiKeyVisibility('openai')}
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                    >
+                      {showApiKeys.openai ? (
+                        <EyeSlashIcon className="h-5 w-5 text-gray-400" />
+                      ) : (
+                        <EyeIcon className="h-5 w-5 text-gray-400" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -19,6 +19,10 @@ import type {
   WebhookDelivery
 } from '../lib/supabase';
 
+// Recordings are private; players get signed links long enough to start playback or a download
+const RECORDING_BUCKET = 'call-recordings';
+const RECORDING_URL_EXPIRY_SECONDS = 600;
+
 export interface DashboardMetrics {
   activeCalls: number;
   totalCallsToday: number;
@@ -632,7 +636,8 @@ export class ApiService {
   }
 
   /**
-   * Get call recording URL
+   * Get a playable URL for a call recording. Recordings in the private bucket are stored as object
+   * paths and get a link that expires after `RECORDING_URL_EXPIRY_SECONDS`.
    */
   static async getCallRecording(callId: string): Promise<string | null> {
     try {
@@ -643,7 +648,14 @@ export class ApiService {
         .single();
 
       if (error) throw error;
-      return data?.recording_url || null;
+      const recording: string | undefined = data?.recording_url;
+      if (!recording || /^https?:\/\//.test(recording)) return recording || null;
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from(RECORDING_BUCKET)
+        .createSignedUrl(recording, RECORDING_URL_EXPIRY_SECONDS);
+      if (signError) throw signError;
+      return signed.signedUrl;
     } catch (error) {
       console.error('Error fetching call recording:', error);
       return null;
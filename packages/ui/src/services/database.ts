@@ -918,6 +918,27 @@ export class DatabaseService {
     return data || [];
   }
 
+  // Calls with usage accounting since the given date, by default this month's, newest first
+  static async getCallUsage(profileId: string, since?: string): Promise<CallLog[]> {
+    const now = new Date();
+    const from = since || new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+
+    const { data, error } = await supabase
+      .from('call_logs')
+      .select('id, started_at, duration_seconds, phone_number_from, phone_number_to, total_tokens, billable_minutes, estimated_cost')
+      .eq('profile_id', profileId)
+      .gte('started_at', from)
+      .not('estimated_cost', 'is', null)
+      .order('started_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching call usage:', error);
+      return [];
+    }
+
+    return (data || []) as CallLog[];
+  }
+
   static async createCheckoutSession(profileId: string, planId: string): Promise<string> {
     // In a real implementation, this would call Stripe API
     return `https://checkout.stripe.com/pay/cs_test_${planId}_${profileId}`;
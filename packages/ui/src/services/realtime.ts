@@ -22,6 +22,15 @@ export interface AgentUpdateEvent {
   userId: string;
 }
 
+/** Live levels of one call, broadcast by the bridge a few times a second. */
+export interface CallAudioLevels {
+  call_id: string;
+  caller_dbfs: number;
+  agent_dbfs: number;
+  caller_speaking: boolean;
+  timestamp: string;
+}
+
 export interface SystemEvent {
   type: 'system_alert' | 'emergency_stop' | 'agent_status_change';
   data: any;
@@ -373,6 +382,27 @@ export class RealtimeService {
     };
   }
 
+  /**
+   * Subscribe to live caller and agent audio levels of the user's calls
+   */
+  static subscribeToAudioLevels(
+    userId: string,
+    onLevels: (levels: CallAudioLevels) => void
+  ): RealtimeSubscription {
+    const supabaseSubscription = supabase
+      .channel(`audio_levels_${userId}`)
+      .on('broadcast', { event: 'levels' }, ({ payload }) => {
+        onLevels(payload as CallAudioLevels);
+      })
+      .subscribe();
+
+    return {
+      unsubscribe: () => {
+        supabaseSubscription.unsubscribe();
+      }
+    };
+  }
+
   /**
    * Subscribe to DNC updates (legacy compatibility)
    */